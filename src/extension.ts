@@ -1,10 +1,60 @@
-import { spawn } from "child_process";
+import { ChildProcess, spawn } from "child_process";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
-
-type FixerId = "codex" | "claude" | "codex-cli" | "claude-cli";
-type CliFixerId = "codex-cli" | "claude-cli";
-type CliOutputMode = "minimal" | "verbose";
+import {
+    ChatCompletionReply,
+    extractReplacementSnippet,
+    parseChatCompletion,
+    postJson,
+} from "./http";
+import {
+    coversWholeFile,
+    extractUnifiedDiff,
+    FilePatch,
+    locateHunk,
+    parseUnifiedDiff,
+} from "./patch";
+import {
+    REDACTION_PATTERNS,
+    RedactedSecrets,
+    redactText,
+    restoreRedactedLines,
+    restoreRedactedText,
+} from "./redaction";
+import {
+    captureSnapshot,
+    collectSnapshotChanges,
+    FileChange,
+    FileSnapshot,
+    readSnapshotFile,
+    restoreFileChanges,
+} from "./snapshot";
+
+type BuiltinFixerId = "codex" | "claude" | "codex-cli" | "claude-cli" | "http";
+type CustomCliFixerId = `custom:${string}`;
+type FixerId = BuiltinFixerId | CustomCliFixerId;
+type CliFixerId = "codex-cli" | "claude-cli" | CustomCliFixerId;
+type CliOutputMode = "minimal" | "verbose" | "streaming";
+type CliOutputFormat = "claude-json" | "codex-json";
+type CliRouteWrapper = "native" | "bash" | "wsl" | "wsl-exec";
+type CliFixOutcome = "applied" | "rejected" | "cancelled";
+type ContextMode = "line" | "window" | "symbol" | "file";
+type FixAttemptStatus =
+    "success" | "unverified" | "sent" | "rejected" | "cancelled" | "failed";
+type BatchGranularity = "file" | "diagnostic";
+type UnsavedChangesPolicy = "save" | "ask" | "refuse" | "abort";
+type FixQueueScope = "file" | "folder";
+type FixJobState = "queued" | "running";
+type BatchJobStatus =
+    | "fixed"
+    | "still present"
+    | "applied"
+    | "rejected"
+    | "cancelled"
+    | "failed"
+    | "skipped";
 
 interface RunFixerArgs {
     fixerId?: FixerId;
@@ -13,6 +63,21 @@ interface RunFixerArgs {
     range: vscode.Range;
     diagnosticMessage?: string;
     diagnosticMessages?: string[];
+    diagnostics?: DiagnosticRecord[];
+}
+
+interface DiagnosticRecord {
+    message: string;
+    severity: string;
+    source?: string;
+    code?: string;
+    related?: RelatedDiagnosticRecord[];
+}
+
+interface RelatedDiagnosticRecord {
+    file: string;
+    line: number;
+    message: string;
 }
 
 interface FixerSpec {
@@ -20,6 +85,15 @@ interface FixerSpec {
     label: string;
 }
 
+interface CustomCliFixerSpec {
+    id: CustomCliFixerId;
+    label: string;
+    binaries: string[];
+    probeArgs: string[];
+    runArgs: string[];
+    wrappers: CliRouteWrapper[];
+}
+
 interface CommandSpec {
     command: string;
     args: string[];
@@ -30,11 +104,150 @@ interface CliRoute {
     display: string;
     probe: CommandSpec;
     buildRun: (prompt: string) => CommandSpec;
+    structuredRun?: (prompt: string) => CommandSpec;
+    outputFormat?: CliOutputFormat;
+    permissionLevel?: number;
+}
+
+interface CliUsage {
+    sessionId?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    costUsd?: number;
+}
+
+interface CliRunReport {
+    summary: string;
+    output: string;
+    isError: boolean;
+    usage: CliUsage;
+    sandboxDenied?: boolean;
+    changedFiles?: string[];
 }
 
 interface CliSettings {
     enableWslRoutes: boolean;
     outputMode: CliOutputMode;
+    probeTimeoutMs: number;
+    runTimeoutMs: number;
+    routeRevalidateMs: number;
+    patchMode: boolean;
+    unsavedChanges: UnsavedChangesPolicy;
+    queueScope: FixQueueScope;
+    confirmFirstRun: boolean;
+    codexForbiddenFlags: string[][];
+    reviewChanges: boolean;
+    undoHistorySize: number;
+    verifyFixes: boolean;
+    verifyRetries: number;
+}
+
+interface DiagnosticFilter {
+    severities: Set<vscode.DiagnosticSeverity>;
+    includeSources: string[];
+    excludeSources: string[];
+    includeCodes: string[];
+    excludeCodes: string[];
+}
+
+interface RouteStats {
+    successes: number;
+    failures: number;
+    timeouts: number;
+    durationsMs: number[];
+    lastRunAt: number;
+}
+
+interface TokenUsageTotals {
+    day: string;
+    tokens: number;
+    costUsd: number;
+    runs: number;
+}
+
+interface TokenBudgetSettings {
+    dailySoft: number;
+    dailyHard: number;
+    workspaceSoft: number;
+    workspaceHard: number;
+}
+
+interface BatchSettings {
+    granularity: BatchGranularity;
+    minSeverity: vscode.DiagnosticSeverity;
+    verifyFixes: boolean;
+}
+
+interface BatchFileGroup {
+    uri: vscode.Uri;
+    diagnostics: vscode.Diagnostic[];
+    settings: BatchSettings;
+}
+
+interface BatchResult {
+    uri: vscode.Uri;
+    line: number;
+    status: BatchJobStatus;
+    detail?: string;
+}
+
+interface FixAttemptRecord {
+    id: string;
+    fixerId: FixerId;
+    label: string;
+    uri: string;
+    file: string;
+    range: [number, number, number, number];
+    diagnosticMessages: string[];
+    diagnostics?: DiagnosticRecord[];
+    route?: string;
+    usage?: CliUsage;
+    durationMs: number;
+    status: FixAttemptStatus;
+    summary: string;
+    prompt: string;
+    timestamp: number;
+}
+
+interface FixAttemptInput {
+    id?: string;
+    fixerId: FixerId;
+    args: RunFixerArgs;
+    prompt: string;
+    startedAt: number;
+    route?: string;
+    usage?: CliUsage;
+}
+
+interface DiagnosticBaseline {
+    diagnostics: vscode.Diagnostic[];
+    lineCount?: number;
+}
+
+interface FixVerification {
+    stillPresent: string[];
+    introduced: string[];
+}
+
+interface FixHistoryEntry {
+    id: number;
+    label: string;
+    file: string;
+    line: number;
+    timestamp: number;
+    root: string;
+    changes: FileChange[];
+}
+
+interface FixJob {
+    id: number;
+    key: string;
+    label: string;
+    file: string;
+    line: number;
+    state: FixJobState;
+    queuedAt: number;
+    cancellation: vscode.CancellationTokenSource;
 }
 
 interface ProcessResult {
@@ -42,12 +255,46 @@ interface ProcessResult {
     stdout: string;
     stderr: string;
     timedOut: boolean;
+    cancelled: boolean;
+    timeoutMs: number;
     errorCode?: string;
 }
 
+interface ContextSettings {
+    mode: ContextMode;
+    windowLines: number;
+    maxChars: number;
+}
+
+interface RedactionSettings {
+    enabled: boolean;
+    patterns: RegExp[];
+}
+
+interface PromptTemplate {
+    fixer?: string;
+    language?: string;
+    prompt?: string;
+    cliPrompt?: string;
+}
+
+interface CodeContext {
+    heading: string;
+    text: string;
+    inline: boolean;
+}
+
 interface PromptSpec {
     prompt: string;
     line: number;
+    secrets: RedactedSecrets;
+    values: Record<string, string>;
+}
+
+interface HttpFixerSettings {
+    label: string;
+    url: string;
+    model: string;
 }
 
 const OUTPUT = vscode.window.createOutputChannel("AI Quick Fix");
@@ -55,31 +302,115 @@ const OUTPUT = vscode.window.createOutputChannel("AI Quick Fix");
 const CODEX_COMMAND = "chatgpt.implementTodo";
 const CLAUDE_EDITOR_COMMAND = "claude-vscode.editor.open";
 const CLAUDE_TERMINAL_COMMAND = "claude-vscode.terminal.open";
+const DEFAULT_HTTP_FIXER_URL = "http://localhost:11434/v1/chat/completions";
+const HTTP_FIXER_API_KEY_SECRET = "ai-quick-fix.http-fixer-api-key";
+const HTTP_FIXER_SYSTEM_PROMPT =
+    "You fix code. Reply with only one fenced code block containing the replacement lines, with no line numbers and no explanation.";
+const CODEX_DENIED_STATUSES = new Set([
+    "declined",
+    "denied",
+    "rejected",
+    "abort",
+]);
 const CLI_ROUTE_STATE_KEY = "aiQuickFix.cliRouteByFixer.v1";
-const CLI_PROBE_TIMEOUT_MS = 3000;
-const CLI_RUN_TIMEOUT_MS = 180000;
+const CLI_PINNED_ROUTE_STATE_KEY = "aiQuickFix.cliPinnedRouteByFixer.v1";
+const CLI_ROUTE_STATS_STATE_KEY = "aiQuickFix.cliRouteStats.v1";
+const ROUTE_STATS_DURATION_SAMPLES = 20;
+const ROUTE_RELIABILITY_TIERS = 10;
+const FIX_ATTEMPTS_STATE_KEY = "aiQuickFix.fixAttempts.v1";
+const MAX_FIX_ATTEMPTS = 100;
+const TOKEN_USAGE_STATE_KEY = "aiQuickFix.tokenUsage.v1";
+const TOKEN_USAGE_TOTAL_STATE_KEY = "aiQuickFix.tokenUsageTotal.v1";
+const CLI_CONFIRMED_COMMANDS_STATE_KEY = "aiQuickFix.cliConfirmedCommands.v1";
+const CHARS_PER_TOKEN_ESTIMATE = 4;
+const DEFAULT_CLI_PROBE_TIMEOUT_MS = 3000;
+const DEFAULT_CLI_RUN_TIMEOUT_MS = 180000;
+const DEFAULT_CLI_ROUTE_REVALIDATE_MINUTES = 30;
+const CLI_ROUTE_CONFIG_KEYS = [
+    "codex-cli",
+    "claude-cli",
+    "custom-cli-fixers",
+    "enable-wsl-routes",
+    "cli-probe-timeout-seconds",
+    "cli-patch-mode",
+    "codex-cli-forbidden-flags",
+];
+const PROCESS_KILL_GRACE_MS = 2000;
 const AI_QUICK_FIX_ACTION_KIND =
     vscode.CodeActionKind.QuickFix.append("zzz-ai-quick-fix");
 const QUICK_FIX_HIDDEN_SORT_PREFIX = "\u2063\u2063\u2063";
 const MAX_PROCESS_OUTPUT_CHARS = 12000;
+const MAX_STRUCTURED_OUTPUT_CHARS = 4_000_000;
 const MAX_BOX_CONTENT_CHARS = 4000;
 const MAX_MINIMAL_SUMMARY_CHARS = 220;
 const OUTPUT_BOX_WIDTH = 100;
 const MAX_FAILURE_SUMMARY_LINES = 8;
-
-const FIXERS: Record<FixerId, FixerSpec> = {
+const CUSTOM_FIXER_ID_PREFIX = "custom:";
+const SNAPSHOT_SCHEME = "ai-quick-fix-snapshot";
+const SNAPSHOT_EXCLUDE_GLOB = "**/{.git,node_modules,out,dist}/**";
+const MAX_SNAPSHOT_FILES = 2000;
+const DEFAULT_UNDO_HISTORY_SIZE = 0;
+const DIAGNOSTIC_SETTLE_TIMEOUT_MS = 8000;
+const DIAGNOSTIC_QUIET_MS = 750;
+const DIAGNOSTIC_LINE_TOLERANCE = 1;
+const PROMPT_TEMPLATE_FILE = ".vscode/ai-quick-fix-prompts.json";
+const MAX_RELATED_INFORMATION = 3;
+const MAX_RELATED_MESSAGE_CHARS = 160;
+const DIAGNOSTIC_SEVERITY_NAMES = ["error", "warning", "information", "hint"];
+const DEFAULT_CONTEXT_WINDOW_LINES = 5;
+const DEFAULT_CONTEXT_MAX_CHARS = 4000;
+const ENCLOSING_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Namespace,
+    vscode.SymbolKind.Module,
+]);
+const PROMPT_PLACEHOLDER = "{prompt}";
+const CLAUDE_PATCH_MODE_ARGS = [
+    "--disallowedTools",
+    "Bash,Edit,Write,MultiEdit,NotebookEdit",
+];
+const CLI_ROUTE_WRAPPERS: CliRouteWrapper[] = [
+    "native",
+    "bash",
+    "wsl",
+    "wsl-exec",
+];
+
+const FIXERS: Record<BuiltinFixerId, FixerSpec> = {
     codex: { id: "codex", label: "Codex" },
     claude: { id: "claude", label: "Claude" },
     "codex-cli": { id: "codex-cli", label: "Codex CLI" },
     "claude-cli": { id: "claude-cli", label: "Claude CLI" },
+    http: { id: "http", label: "Local Model" },
 };
 
 let extensionContextRef: vscode.ExtensionContext | undefined;
-const cliRouteCache = new Map<CliFixerId, CliRoute | null>();
-const cliRouteDiscovery = new Map<CliFixerId, Promise<CliRoute | null>>();
+const cliRouteCache = new Map<string, CliRoute | null>();
+const cliRouteDiscovery = new Map<string, Promise<CliRoute | null>>();
 const cliProbeCache = new Map<string, boolean>();
 const cliProbeDiscovery = new Map<string, Promise<boolean>>();
+const unavailablePinnedRoutes = new Set<string>();
 const commandAvailabilityCache = new Map<string, boolean>();
+const structuredOutputUnsupported = new Set<string>();
+const snapshotDocuments = new Map<string, string>();
+const redactionPatternCache = new Map<string, RegExp[]>();
+const fixHistory: FixHistoryEntry[] = [];
+let nextFixHistoryId = 1;
+const fixJobs: FixJob[] = [];
+const fixJobTails = new Map<string, Promise<void>>();
+let nextFixJobId = 1;
+let fixQueueStatus: vscode.StatusBarItem | undefined;
+let routeRevalidationTimer: NodeJS.Timeout | undefined;
+let tokenUsageStatus: vscode.StatusBarItem | undefined;
+let tokenBudgetWarnedDay: string | undefined;
+let tokenUsageUpdates: Promise<void> = Promise.resolve();
+const fixAttemptsChanged = new vscode.EventEmitter<void>();
 
 export function activate(context: vscode.ExtensionContext): void {
     extensionContextRef = context;
@@ -118,8 +449,265 @@ export function activate(context: vscode.ExtensionContext): void {
         },
     );
 
-    context.subscriptions.push(provider, runFixer, OUTPUT);
+    const snapshotProvider =
+        vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, {
+            provideTextDocumentContent: (uri) =>
+                snapshotDocuments.get(uri.toString()) ?? "",
+        });
+
+    const undoLastFix = vscode.commands.registerCommand(
+        "aiQuickFix.undoLastFix",
+        async () => {
+            const entry = fixHistory[0];
+            if (!entry) {
+                void vscode.window.showInformationMessage(
+                    "AI Quick Fix: no CLI fix to undo.",
+                );
+                return;
+            }
+            await runUndoFix(entry);
+        },
+    );
+
+    const undoFix = vscode.commands.registerCommand(
+        "aiQuickFix.undoFix",
+        async () => {
+            if (fixHistory.length === 0) {
+                void vscode.window.showInformationMessage(
+                    "AI Quick Fix: no CLI fix to undo.",
+                );
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                fixHistory.map((entry) => ({
+                    label: `${entry.label}: ${entry.file}:${entry.line}`,
+                    description: new Date(entry.timestamp).toLocaleTimeString(),
+                    detail: `${entry.changes.length} changed file(s)`,
+                    entry,
+                })),
+                { placeHolder: "Select a CLI fix to undo" },
+            );
+            if (picked) {
+                await runUndoFix(picked.entry);
+            }
+        },
+    );
+
+    const fixAllInFile = vscode.commands.registerCommand(
+        "aiQuickFix.fixAllInFile",
+        async (uri?: vscode.Uri) => {
+            const target =
+                uri instanceof vscode.Uri
+                    ? uri
+                    : vscode.window.activeTextEditor?.document.uri;
+            if (!target) {
+                void vscode.window.showErrorMessage(
+                    "AI Quick Fix: open a file to fix its diagnostics.",
+                );
+                return;
+            }
+            await runBatchFixCommand([
+                [target, vscode.languages.getDiagnostics(target)],
+            ]);
+        },
+    );
+
+    const fixAllInWorkspace = vscode.commands.registerCommand(
+        "aiQuickFix.fixAllInWorkspace",
+        async () => {
+            await runBatchFixCommand(vscode.languages.getDiagnostics());
+        },
+    );
+
+    const showCliRoutes = vscode.commands.registerCommand(
+        "aiQuickFix.showCliRoutes",
+        async () => {
+            await runRouteCommand(showCliRoutesForFixer);
+        },
+    );
+
+    const pinCliRoute = vscode.commands.registerCommand(
+        "aiQuickFix.pinCliRoute",
+        async () => {
+            await runRouteCommand(pinCliRouteForFixer);
+        },
+    );
+
+    const reprobeCliRoutes = vscode.commands.registerCommand(
+        "aiQuickFix.reprobeCliRoutes",
+        async () => {
+            try {
+                await reprobeAllCliRoutes();
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                OUTPUT.appendLine(`[error] ${msg}`);
+                void vscode.window.showErrorMessage(
+                    `AI Quick Fix failed: ${msg}`,
+                );
+            }
+        },
+    );
+
+    const showFixQueueCommand = vscode.commands.registerCommand(
+        "aiQuickFix.showFixQueue",
+        async () => {
+            await showFixQueue();
+        },
+    );
+
+    const cancelQueuedFixes = vscode.commands.registerCommand(
+        "aiQuickFix.cancelQueuedFixes",
+        () => {
+            cancelQueuedFixJobs();
+        },
+    );
+
+    const setHttpApiKey = vscode.commands.registerCommand(
+        "aiQuickFix.setHttpApiKey",
+        async () => {
+            await promptForHttpApiKey(context.secrets);
+        },
+    );
+
+    const showRouteHealthCommand = vscode.commands.registerCommand(
+        "aiQuickFix.showRouteHealth",
+        () => {
+            showRouteHealth();
+        },
+    );
+
+    const historyView = vscode.window.createTreeView("aiQuickFix.history", {
+        treeDataProvider: new FixAttemptTreeProvider(),
+    });
+
+    const rerunAttempt = vscode.commands.registerCommand(
+        "aiQuickFix.history.rerun",
+        async (record?: FixAttemptRecord) => {
+            if (!record) {
+                return;
+            }
+            await vscode.commands.executeCommand("aiQuickFix.runFixer", {
+                fixerId: record.fixerId,
+                uri: vscode.Uri.parse(record.uri),
+                range: new vscode.Range(...record.range),
+                diagnosticMessages: record.diagnosticMessages,
+                diagnostics: record.diagnostics,
+            } satisfies RunFixerArgs);
+        },
+    );
+
+    const openAttempt = vscode.commands.registerCommand(
+        "aiQuickFix.history.openFile",
+        async (record?: FixAttemptRecord) => {
+            if (!record) {
+                return;
+            }
+            const range = new vscode.Range(...record.range);
+            await vscode.window.showTextDocument(vscode.Uri.parse(record.uri), {
+                selection: new vscode.Range(range.start, range.start),
+            });
+        },
+    );
+
+    const copyAttemptPrompt = vscode.commands.registerCommand(
+        "aiQuickFix.history.copyPrompt",
+        async (record?: FixAttemptRecord) => {
+            if (!record) {
+                return;
+            }
+            await vscode.env.clipboard.writeText(record.prompt);
+            void vscode.window.showInformationMessage(
+                "AI Quick Fix: prompt copied to clipboard.",
+            );
+        },
+    );
+
+    const clearAttempts = vscode.commands.registerCommand(
+        "aiQuickFix.history.clear",
+        async () => {
+            await context.workspaceState.update(FIX_ATTEMPTS_STATE_KEY, []);
+            fixAttemptsChanged.fire();
+        },
+    );
+
+    context.subscriptions.push(
+        provider,
+        runFixer,
+        showCliRoutes,
+        pinCliRoute,
+        reprobeCliRoutes,
+        showRouteHealthCommand,
+        showFixQueueCommand,
+        cancelQueuedFixes,
+        setHttpApiKey,
+        historyView,
+        rerunAttempt,
+        openAttempt,
+        copyAttemptPrompt,
+        clearAttempts,
+        fixAttemptsChanged,
+        fixAllInFile,
+        fixAllInWorkspace,
+        undoLastFix,
+        undoFix,
+        snapshotProvider,
+        OUTPUT,
+    );
+
+    tokenUsageStatus = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Right,
+        100,
+    );
+    context.subscriptions.push(tokenUsageStatus);
+    updateTokenUsageStatus();
+
+    fixQueueStatus = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Right,
+        101,
+    );
+    fixQueueStatus.command = "aiQuickFix.showFixQueue";
+    context.subscriptions.push(fixQueueStatus);
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("ai-quick-fix")) {
+                updateTokenUsageStatus();
+            }
+            if (event.affectsConfiguration("ai-quick-fix.redaction-patterns")) {
+                redactionPatternCache.clear();
+            }
+            if (
+                CLI_ROUTE_CONFIG_KEYS.some((key) =>
+                    event.affectsConfiguration(`ai-quick-fix.${key}`),
+                )
+            ) {
+                invalidateCliRouteCaches();
+                void warmCliRouteCache();
+            }
+            if (
+                event.affectsConfiguration(
+                    "ai-quick-fix.cli-route-revalidate-minutes",
+                )
+            ) {
+                scheduleRouteRevalidation();
+            }
+        }),
+        vscode.extensions.onDidChange(() => {
+            commandAvailabilityCache.clear();
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            invalidateCliRouteCaches();
+            void warmCliRouteCache();
+        }),
+        vscode.workspace.onDidGrantWorkspaceTrust(() => {
+            invalidateCliRouteCaches();
+            void warmCliRouteCache();
+        }),
+        { dispose: () => stopRouteRevalidation() },
+    );
     void warmCliRouteCache();
+    scheduleRouteRevalidation();
 }
 
 class AiQuickFixProvider implements vscode.CodeActionProvider {
@@ -128,21 +716,29 @@ class AiQuickFixProvider implements vscode.CodeActionProvider {
         range: vscode.Range,
         context: vscode.CodeActionContext,
     ): Promise<vscode.CodeAction[]> {
-        const fixers = await getEnabledFixers();
-        if (fixers.length === 0 || context.diagnostics.length === 0) {
+        const diagnostics = filterDiagnostics(context.diagnostics, document);
+        if (diagnostics.length === 0) {
+            return [];
+        }
+
+        const fixers = await getEnabledFixers(document.uri);
+        if (fixers.length === 0) {
             return [];
         }
 
         const actions: vscode.CodeAction[] = [];
-        const targetDiagnostic = selectTargetDiagnostic(
-            context.diagnostics,
-            range,
-        );
+        const targetDiagnostic = selectTargetDiagnostic(diagnostics, range);
         const targetLine =
             targetDiagnostic?.range.start.line ?? range.start.line;
         const diagnosticMessages = collectLineDiagnosticMessages(
-            context.diagnostics,
+            diagnostics,
             targetLine,
+            document,
+        );
+        const diagnosticRecords = collectLineDiagnosticRecords(
+            diagnostics,
+            targetLine,
+            document,
         );
 
         for (const fixer of fixers) {
@@ -161,6 +757,7 @@ class AiQuickFixProvider implements vscode.CodeActionProvider {
                         range: targetDiagnostic?.range ?? range,
                         diagnosticMessage: targetDiagnostic?.message,
                         diagnosticMessages,
+                        diagnostics: diagnosticRecords,
                     } satisfies RunFixerArgs,
                 ],
             };
@@ -171,6 +768,52 @@ class AiQuickFixProvider implements vscode.CodeActionProvider {
     }
 }
 
+class FixAttemptTreeProvider implements vscode.TreeDataProvider<FixAttemptRecord> {
+    readonly onDidChangeTreeData = fixAttemptsChanged.event;
+
+    getChildren(element?: FixAttemptRecord): FixAttemptRecord[] {
+        return element ? [] : getFixAttempts();
+    }
+
+    getTreeItem(record: FixAttemptRecord): vscode.TreeItem {
+        const line = record.range[0] + 1;
+        const item = new vscode.TreeItem(
+            `${record.label}: ${record.file}:${line}`,
+            vscode.TreeItemCollapsibleState.None,
+        );
+        item.id = record.id;
+        item.description = `${record.status} · ${formatDuration(record.durationMs)}`;
+        item.tooltip = [
+            `Fixer: ${record.label}`,
+            `File: ${record.file}:${line}`,
+            `Time: ${new Date(record.timestamp).toLocaleString()}`,
+            `Route: ${record.route ?? "(extension command)"}`,
+            ...(record.usage ? [`Usage: ${formatCliUsage(record.usage)}`] : []),
+            `Duration: ${formatDuration(record.durationMs)}`,
+            `Status: ${record.status}`,
+            `Summary: ${record.summary}`,
+            "Diagnostics:",
+            ...record.diagnosticMessages.map((message) => `- ${message}`),
+        ].join("\n");
+        item.iconPath = new vscode.ThemeIcon(
+            record.status === "success" || record.status === "sent"
+                ? "pass"
+                : record.status === "failed"
+                  ? "error"
+                  : record.status === "unverified"
+                    ? "warning"
+                    : "circle-slash",
+        );
+        item.contextValue = "aiQuickFixAttempt";
+        item.command = {
+            command: "aiQuickFix.history.openFile",
+            title: "Open File",
+            arguments: [record],
+        };
+        return item;
+    }
+}
+
 function selectTargetDiagnostic(
     diagnostics: readonly vscode.Diagnostic[],
     range: vscode.Range,
@@ -185,9 +828,10 @@ function selectTargetDiagnostic(
 function collectLineDiagnosticMessages(
     diagnostics: readonly vscode.Diagnostic[],
     line: number,
+    scope?: vscode.ConfigurationScope,
 ): string[] {
     const unique = new Set<string>();
-    for (const diagnostic of diagnostics) {
+    for (const diagnostic of filterDiagnostics(diagnostics, scope)) {
         if (
             diagnostic.range.start.line <= line &&
             line <= diagnostic.range.end.line
@@ -201,12 +845,125 @@ function collectLineDiagnosticMessages(
     return [...unique];
 }
 
+function collectLineDiagnosticRecords(
+    diagnostics: readonly vscode.Diagnostic[],
+    line: number,
+    scope?: vscode.ConfigurationScope,
+): DiagnosticRecord[] {
+    const records = new Map<string, DiagnosticRecord>();
+    for (const diagnostic of filterDiagnostics(diagnostics, scope)) {
+        if (
+            diagnostic.range.start.line <= line &&
+            line <= diagnostic.range.end.line
+        ) {
+            const record = toDiagnosticRecord(diagnostic);
+            if (record.message) {
+                records.set(formatDiagnosticRecord(record), record);
+            }
+        }
+    }
+    return [...records.values()];
+}
+
+function toDiagnosticRecord(diagnostic: vscode.Diagnostic): DiagnosticRecord {
+    const code =
+        typeof diagnostic.code === "object"
+            ? diagnostic.code.value
+            : diagnostic.code;
+    return {
+        message: normalizeDiagnosticMessage(diagnostic.message),
+        severity: DIAGNOSTIC_SEVERITY_NAMES[diagnostic.severity] ?? "error",
+        source: diagnostic.source || undefined,
+        code: code === undefined || code === "" ? undefined : String(code),
+        related: diagnostic.relatedInformation
+            ?.slice(0, MAX_RELATED_INFORMATION)
+            .map((info) => ({
+                file: vscode.workspace.asRelativePath(info.location.uri, false),
+                line: info.location.range.start.line + 1,
+                message: truncateInline(
+                    normalizeDiagnosticMessage(info.message),
+                    MAX_RELATED_MESSAGE_CHARS,
+                ),
+            })),
+    };
+}
+
+function formatDiagnosticRecord(record: DiagnosticRecord): string {
+    const origin =
+        record.source && record.code
+            ? `${record.source}(${record.code})`
+            : (record.source ?? record.code);
+    const lines = [
+        `[${origin ? `${record.severity} ${origin}` : record.severity}] ${record.message}`,
+    ];
+    for (const related of record.related ?? []) {
+        lines.push(
+            `  related: ${related.file}:${related.line} ${related.message}`,
+        );
+    }
+    return lines.join("\n");
+}
+
+function filterDiagnostics(
+    diagnostics: readonly vscode.Diagnostic[],
+    scope?: vscode.ConfigurationScope,
+): vscode.Diagnostic[] {
+    const filter = getDiagnosticFilter(scope);
+    return diagnostics.filter((diagnostic) =>
+        isDiagnosticAllowed(diagnostic, filter),
+    );
+}
+
+function isDiagnosticAllowed(
+    diagnostic: vscode.Diagnostic,
+    filter: DiagnosticFilter,
+): boolean {
+    if (!filter.severities.has(diagnostic.severity)) {
+        return false;
+    }
+
+    const source = diagnostic.source?.toLowerCase() ?? "";
+    if (
+        filter.includeSources.length > 0 &&
+        !filter.includeSources.includes(source)
+    ) {
+        return false;
+    }
+    if (filter.excludeSources.includes(source)) {
+        return false;
+    }
+
+    const codes = getDiagnosticCodeKeys(diagnostic);
+    if (
+        filter.includeCodes.length > 0 &&
+        !codes.some((code) => filter.includeCodes.includes(code))
+    ) {
+        return false;
+    }
+    return !codes.some((code) => filter.excludeCodes.includes(code));
+}
+
+function getDiagnosticCodeKeys(diagnostic: vscode.Diagnostic): string[] {
+    const raw =
+        typeof diagnostic.code === "object"
+            ? diagnostic.code.value
+            : diagnostic.code;
+    if (raw === undefined || raw === "") {
+        return [];
+    }
+
+    const code = String(raw).toLowerCase();
+    const source = diagnostic.source?.toLowerCase();
+    return source ? [code, `${source}${code}`] : [code];
+}
+
 function normalizeDiagnosticMessage(message: string): string {
     return message.replace(/\s+/g, " ").trim();
 }
 
-async function getEnabledFixers(): Promise<FixerSpec[]> {
-    const config = vscode.workspace.getConfiguration("ai-quick-fix");
+async function getEnabledFixers(uri?: vscode.Uri): Promise<FixerSpec[]> {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", uri);
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
     const codex = parseBoolean(config.get<unknown>("codex"), true);
     const claude = parseBoolean(config.get<unknown>("claude"), true);
     const codexCli = parseBoolean(config.get<unknown>("codex-cli"), false);
@@ -223,53 +980,949 @@ async function getEnabledFixers(): Promise<FixerSpec[]> {
     ) {
         enabled.push(FIXERS.claude);
     }
-    if (codexCli && (await getCliRoute("codex-cli"))) {
+    if (codexCli && (await getCliRoute("codex-cli", folder))) {
         enabled.push(FIXERS["codex-cli"]);
     }
-    if (claudeCli && (await getCliRoute("claude-cli"))) {
+    if (claudeCli && (await getCliRoute("claude-cli", folder))) {
         enabled.push(FIXERS["claude-cli"]);
     }
+    for (const custom of getCustomCliFixers(uri)) {
+        if (await getCliRoute(custom.id, folder)) {
+            enabled.push({ id: custom.id, label: custom.label });
+        }
+    }
+    if (
+        parseBoolean(config.get<unknown>("http-fixer"), false) &&
+        getHttpFixerSettings(uri).url
+    ) {
+        enabled.push({ id: "http", label: getFixerLabel("http", uri) });
+    }
 
     return enabled;
 }
 
+function getFixerLabel(
+    fixerId: FixerId,
+    scope?: vscode.ConfigurationScope,
+): string {
+    if (isCustomCliFixerId(fixerId)) {
+        return getCustomCliFixer(fixerId, scope)?.label ?? fixerId;
+    }
+    if (fixerId === "http") {
+        return getHttpFixerSettings(scope).label;
+    }
+    return FIXERS[fixerId].label;
+}
+
 async function runVsCodeCommandFixer(
     args: RunFixerArgs,
     fixerId: FixerId,
 ): Promise<void> {
-    const promptSpec = await buildPrompt(args);
+    const promptSpec = await buildPrompt(args, fixerId);
+    if (isCliFixerId(fixerId)) {
+        await runVerifiedCliFix(args, promptSpec, fixerId);
+        return;
+    }
+    if (fixerId === "http") {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `AI Quick Fix: running ${getFixerLabel(fixerId, args.uri)}`,
+                cancellable: true,
+            },
+            async (_progress, token) => {
+                await runHttpFix(args, promptSpec, token);
+            },
+        );
+        return;
+    }
 
-    switch (fixerId) {
-        case "codex":
-            await runCodexFix(args, promptSpec);
-            break;
-        case "claude":
-            await runClaudeFix(promptSpec.prompt);
-            break;
-        case "codex-cli":
-            await runCliFix(args, promptSpec.prompt, "codex-cli");
-            break;
-        case "claude-cli":
-            await runCliFix(args, promptSpec.prompt, "claude-cli");
-            break;
+    const attempt: FixAttemptInput = {
+        fixerId,
+        args,
+        prompt: promptSpec.prompt,
+        startedAt: Date.now(),
+    };
+    try {
+        switch (fixerId) {
+            case "codex":
+                await runCodexFix(args, promptSpec);
+                break;
+            case "claude":
+                await runClaudeFix(promptSpec.prompt);
+                break;
+        }
+    } catch (error) {
+        await recordFixAttempt(
+            attempt,
+            "failed",
+            error instanceof Error ? error.message : String(error),
+        );
+        throw error;
     }
+    await recordFixAttempt(attempt, "sent", "Prompt sent to the extension.");
 }
 
-async function runCodexFix(
+async function runVerifiedCliFix(
     args: RunFixerArgs,
     promptSpec: PromptSpec,
+    fixerId: CliFixerId,
 ): Promise<void> {
-    await assertCommandAvailable(
-        CODEX_COMMAND,
-        "Codex quick fix requires the OpenAI ChatGPT VS Code extension.",
-    );
-    await vscode.commands.executeCommand(CODEX_COMMAND, {
-        fileName: encodeURIComponent(args.uri.fsPath),
-        line: promptSpec.line,
-        comment: promptSpec.prompt,
-    });
-    OUTPUT.appendLine(
-        `[codex] Sent minimal prompt to line ${promptSpec.line}.`,
+    const label = getFixerLabel(fixerId, args.uri);
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `AI Quick Fix: running ${label}`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            await runQueuedFixJob(
+                args,
+                fixerId,
+                label,
+                token,
+                async (jobToken) => {
+                    progress.report({ message: "" });
+                    await runVerifiedCliFixAttempts(
+                        args,
+                        promptSpec,
+                        fixerId,
+                        jobToken,
+                    );
+                },
+                (ahead) => {
+                    progress.report({
+                        message: `queued behind ${ahead} fix(es) on this target`,
+                    });
+                },
+            );
+        },
+    );
+}
+
+async function runVerifiedCliFixAttempts(
+    args: RunFixerArgs,
+    promptSpec: PromptSpec,
+    fixerId: CliFixerId,
+    token: vscode.CancellationToken,
+): Promise<void> {
+    const cliSettings = getCliSettings(args.uri);
+    const label = getFixerLabel(fixerId, args.uri);
+    let current = args;
+    let currentPrompt = promptSpec;
+
+    for (let attempt = 0; ; attempt++) {
+        const before = captureDiagnosticBaseline(current.uri);
+        const fixAttempt: FixAttemptInput = {
+            fixerId,
+            args: current,
+            prompt: currentPrompt.prompt,
+            startedAt: Date.now(),
+        };
+        const outcome = await runCliFix(
+            current,
+            currentPrompt,
+            fixerId,
+            token,
+            fixAttempt,
+        );
+        if (outcome !== "applied" || !cliSettings.verifyFixes) {
+            return;
+        }
+
+        const after = await waitForDiagnostics(current.uri, before);
+        const verification = verifyDiagnostics(current, before, after);
+        await recordFixVerification(fixAttempt, verification);
+        appendOutputBox(`${label} Verification`, [
+            {
+                heading: "Result",
+                content: formatFixVerification(verification),
+            },
+        ]);
+
+        if (
+            verification.stillPresent.length === 0 ||
+            attempt >= cliSettings.verifyRetries ||
+            token.isCancellationRequested
+        ) {
+            return;
+        }
+
+        const remaining = after.find((diagnostic) =>
+            verification.stillPresent.includes(
+                normalizeDiagnosticMessage(diagnostic.message),
+            ),
+        );
+        if (!remaining) {
+            return;
+        }
+
+        current = {
+            ...current,
+            range: remaining.range,
+            diagnosticMessage: remaining.message,
+            diagnosticMessages: collectLineDiagnosticMessages(
+                after,
+                remaining.range.start.line,
+                current.uri,
+            ),
+            diagnostics: collectLineDiagnosticRecords(
+                after,
+                remaining.range.start.line,
+                current.uri,
+            ),
+        };
+        currentPrompt = await buildPrompt(current, fixerId);
+        OUTPUT.appendLine(
+            `[verify] Retrying ${label} (attempt ${attempt + 2} of ${cliSettings.verifyRetries + 1}).`,
+        );
+    }
+}
+
+function captureDiagnosticBaseline(uri: vscode.Uri): DiagnosticBaseline {
+    return {
+        diagnostics: vscode.languages.getDiagnostics(uri),
+        lineCount: findOpenDocument(uri)?.lineCount,
+    };
+}
+
+async function waitForDiagnostics(
+    uri: vscode.Uri,
+    baseline: DiagnosticBaseline,
+): Promise<vscode.Diagnostic[]> {
+    if (!findOpenDocument(uri)) {
+        return vscode.languages.getDiagnostics(uri);
+    }
+
+    return await new Promise<vscode.Diagnostic[]>((resolve) => {
+        let quietTimer: NodeJS.Timeout | undefined;
+        const finish = (): void => {
+            clearTimeout(quietTimer);
+            clearTimeout(timeoutTimer);
+            subscription.dispose();
+            resolve(vscode.languages.getDiagnostics(uri));
+        };
+        const subscription = vscode.languages.onDidChangeDiagnostics(
+            (event) => {
+                if (
+                    event.uris.some(
+                        (changed) => changed.toString() === uri.toString(),
+                    )
+                ) {
+                    clearTimeout(quietTimer);
+                    quietTimer = setTimeout(finish, DIAGNOSTIC_QUIET_MS);
+                }
+            },
+        );
+        const timeoutTimer = setTimeout(finish, DIAGNOSTIC_SETTLE_TIMEOUT_MS);
+        if (
+            !haveSameDiagnostics(
+                vscode.languages.getDiagnostics(uri),
+                baseline.diagnostics,
+            )
+        ) {
+            quietTimer = setTimeout(finish, DIAGNOSTIC_QUIET_MS);
+        }
+    });
+}
+
+function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(
+        (document) => document.uri.toString() === uri.toString(),
+    );
+}
+
+function haveSameDiagnostics(
+    a: readonly vscode.Diagnostic[],
+    b: readonly vscode.Diagnostic[],
+): boolean {
+    const keys = (diagnostics: readonly vscode.Diagnostic[]): string =>
+        diagnostics
+            .map(
+                (diagnostic) =>
+                    `${getDiagnosticKey(diagnostic)}\u0000${diagnostic.range.start.line}:${diagnostic.range.start.character}`,
+            )
+            .sort()
+            .join("\n");
+    return keys(a) === keys(b);
+}
+
+function getDiagnosticKey(diagnostic: vscode.Diagnostic): string {
+    return `${normalizeDiagnosticMessage(diagnostic.message)}\u0000${getDiagnosticCodeKeys(diagnostic)[0] ?? ""}`;
+}
+
+function verifyDiagnostics(
+    args: RunFixerArgs,
+    baseline: DiagnosticBaseline,
+    after: readonly vscode.Diagnostic[],
+): FixVerification {
+    const lineDelta =
+        baseline.lineCount === undefined
+            ? 0
+            : (findOpenDocument(args.uri)?.lineCount ?? baseline.lineCount) -
+              baseline.lineCount;
+    const window = Math.abs(lineDelta) + DIAGNOSTIC_LINE_TOLERANCE;
+    const isNear = (line: number, target: number): boolean =>
+        Math.abs(line - target) <= window;
+
+    const stillPresent: string[] = [];
+    for (const message of resolveDiagnosticMessages(args)) {
+        const candidates = baseline.diagnostics.filter(
+            (diagnostic) =>
+                normalizeDiagnosticMessage(diagnostic.message) === message,
+        );
+        const overlapping = candidates.filter(
+            (diagnostic) =>
+                diagnostic.range.start.line <= args.range.end.line &&
+                args.range.start.line <= diagnostic.range.end.line,
+        );
+        const targets = overlapping.length > 0 ? overlapping : candidates;
+        const present =
+            targets.length > 0
+                ? targets.some((target) =>
+                      after.some(
+                          (diagnostic) =>
+                              getDiagnosticKey(diagnostic) ===
+                                  getDiagnosticKey(target) &&
+                              isNear(
+                                  diagnostic.range.start.line,
+                                  target.range.start.line,
+                              ),
+                      ),
+                  )
+                : after.some(
+                      (diagnostic) =>
+                          normalizeDiagnosticMessage(diagnostic.message) ===
+                              message &&
+                          isNear(
+                              diagnostic.range.start.line,
+                              args.range.start.line,
+                          ),
+                  );
+        if (present) {
+            stillPresent.push(message);
+        }
+    }
+
+    const beforeCounts = new Map<string, number>();
+    for (const diagnostic of baseline.diagnostics) {
+        const key = getDiagnosticKey(diagnostic);
+        beforeCounts.set(key, (beforeCounts.get(key) ?? 0) + 1);
+    }
+    const introduced = new Set<string>();
+    for (const diagnostic of after) {
+        if (diagnostic.severity !== vscode.DiagnosticSeverity.Error) {
+            continue;
+        }
+        const key = getDiagnosticKey(diagnostic);
+        const remaining = beforeCounts.get(key) ?? 0;
+        if (remaining > 0) {
+            beforeCounts.set(key, remaining - 1);
+        } else {
+            introduced.add(normalizeDiagnosticMessage(diagnostic.message));
+        }
+    }
+
+    return { stillPresent, introduced: [...introduced] };
+}
+
+function formatFixVerification(verification: FixVerification): string {
+    const lines: string[] = [];
+    if (verification.stillPresent.length === 0) {
+        lines.push("fixed: target diagnostics are gone.");
+    } else {
+        lines.push("still present:");
+        lines.push(
+            ...verification.stillPresent.map((message) => `- ${message}`),
+        );
+    }
+    if (verification.introduced.length > 0) {
+        lines.push("new errors introduced:");
+        lines.push(...verification.introduced.map((message) => `- ${message}`));
+    }
+    return lines.join("\n");
+}
+
+async function runBatchFixCommand(
+    entries: [vscode.Uri, readonly vscode.Diagnostic[]][],
+): Promise<void> {
+    try {
+        await runBatchFix(entries);
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        OUTPUT.appendLine(`[error] ${msg}`);
+        void vscode.window.showErrorMessage(`AI Quick Fix failed: ${msg}`);
+    }
+}
+
+async function runBatchFix(
+    entries: [vscode.Uri, readonly vscode.Diagnostic[]][],
+): Promise<void> {
+    const candidates: BatchFileGroup[] = entries
+        .filter(([uri]) => uri.scheme === "file")
+        .map(([uri, diagnostics]) => {
+            const settings = getBatchSettings(uri);
+            return {
+                uri,
+                settings,
+                diagnostics: filterDiagnostics(diagnostics, uri).filter(
+                    (diagnostic) => diagnostic.severity <= settings.minSeverity,
+                ),
+            };
+        })
+        .filter((group) => group.diagnostics.length > 0);
+    if (candidates.length === 0) {
+        void vscode.window.showInformationMessage(
+            "AI Quick Fix: no matching diagnostics to fix.",
+        );
+        return;
+    }
+
+    const fixersByFolder = await getBatchFixersByFolder(
+        candidates.map((group) => group.uri),
+    );
+    const fixerId = await pickBatchFixer(fixersByFolder);
+    if (!fixerId) {
+        return;
+    }
+
+    const results: BatchResult[] = [];
+    const groups: BatchFileGroup[] = [];
+    for (const group of candidates) {
+        if (
+            fixersByFolder
+                .get(getBatchFolderKey(group.uri))
+                ?.some((fixer) => fixer.id === fixerId)
+        ) {
+            groups.push(group);
+            continue;
+        }
+        results.push({
+            uri: group.uri,
+            line: group.diagnostics[0].range.start.line + 1,
+            status: "skipped",
+            detail: "fixer is not enabled for this folder",
+        });
+    }
+    if (groups.length === 0) {
+        return;
+    }
+
+    const label = getFixerLabel(fixerId, groups[0].uri);
+    const concurrency = groups.some((group) =>
+        usesWorkspaceSnapshots(getCliSettings(group.uri), fixerId),
+    )
+        ? 1
+        : getBatchConcurrency();
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `AI Quick Fix: ${label}`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            let next = 0;
+            let completed = 0;
+            const worker = async (): Promise<void> => {
+                while (!token.isCancellationRequested && next < groups.length) {
+                    const group = groups[next++];
+                    progress.report({
+                        message: `${vscode.workspace.asRelativePath(group.uri, false)} (${completed + 1}/${groups.length})`,
+                    });
+                    results.push(
+                        ...(await runBatchFileGroup(group, fixerId, token)),
+                    );
+                    completed++;
+                    progress.report({ increment: 100 / groups.length });
+                }
+            };
+
+            await Promise.all(
+                Array.from(
+                    { length: Math.min(concurrency, groups.length) },
+                    () => worker(),
+                ),
+            );
+
+            for (const group of groups.slice(next)) {
+                results.push({
+                    uri: group.uri,
+                    line: group.diagnostics[0].range.start.line + 1,
+                    status: "skipped",
+                    detail: "cancelled",
+                });
+            }
+        },
+    );
+
+    const counts = new Map<BatchJobStatus, number>();
+    for (const result of results) {
+        counts.set(result.status, (counts.get(result.status) ?? 0) + 1);
+    }
+    const summary = [...counts]
+        .map(([status, count]) => `${status}: ${count}`)
+        .join(", ");
+    appendOutputBox(`${label} Batch Fix Summary`, [
+        { heading: "Summary", content: summary },
+        {
+            heading: "Results",
+            content: results
+                .map(
+                    (result) =>
+                        `${result.status}: ${vscode.workspace.asRelativePath(result.uri, false)}:${result.line}` +
+                        (result.detail ? ` (${result.detail})` : ""),
+                )
+                .join("\n"),
+        },
+    ]);
+    void vscode.window.showInformationMessage(
+        `AI Quick Fix: ${label} batch finished. ${summary}`,
+    );
+}
+
+async function getBatchFixersByFolder(
+    uris: vscode.Uri[],
+): Promise<Map<string, Array<FixerSpec & { id: CliFixerId }>>> {
+    const fixersByFolder = new Map<
+        string,
+        Array<FixerSpec & { id: CliFixerId }>
+    >();
+    for (const uri of uris) {
+        const key = getBatchFolderKey(uri);
+        if (!fixersByFolder.has(key)) {
+            fixersByFolder.set(
+                key,
+                (await getEnabledFixers(uri)).filter(
+                    (fixer): fixer is FixerSpec & { id: CliFixerId } =>
+                        isCliFixerId(fixer.id),
+                ),
+            );
+        }
+    }
+    return fixersByFolder;
+}
+
+function getBatchFolderKey(uri: vscode.Uri): string {
+    return vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() ?? "";
+}
+
+async function pickBatchFixer(
+    fixersByFolder: Map<string, Array<FixerSpec & { id: CliFixerId }>>,
+): Promise<CliFixerId | undefined> {
+    const fixers = new Map<CliFixerId, FixerSpec>();
+    for (const folderFixers of fixersByFolder.values()) {
+        for (const fixer of folderFixers) {
+            if (!fixers.has(fixer.id)) {
+                fixers.set(fixer.id, fixer);
+            }
+        }
+    }
+    if (fixers.size === 0) {
+        void vscode.window.showErrorMessage(
+            "AI Quick Fix: batch fixes require an enabled CLI fixer with a working route.",
+        );
+        return undefined;
+    }
+    if (fixers.size === 1) {
+        return [...fixers.keys()][0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [...fixers].map(([id, fixer]) => ({ label: fixer.label, id })),
+        { placeHolder: "Select the fixer to run for every file" },
+    );
+    return picked?.id;
+}
+
+async function runBatchFileGroup(
+    group: BatchFileGroup,
+    fixerId: CliFixerId,
+    token: vscode.CancellationToken,
+): Promise<BatchResult[]> {
+    const { settings } = group;
+    if (settings.granularity === "file") {
+        const first = group.diagnostics[0];
+        return [
+            await runBatchJob(
+                {
+                    fixerId,
+                    uri: group.uri,
+                    range: first.range,
+                    diagnosticMessage: first.message,
+                    diagnosticMessages: group.diagnostics.map(
+                        (diagnostic) => diagnostic.message,
+                    ),
+                    diagnostics: group.diagnostics.map(toDiagnosticRecord),
+                },
+                await buildFilePrompt(group.uri, group.diagnostics, fixerId),
+                fixerId,
+                settings,
+                token,
+            ),
+        ];
+    }
+
+    const results: BatchResult[] = [];
+    const initialLineCount = findOpenDocument(group.uri)?.lineCount;
+    const seen = new Set<string>();
+    const pending = group.diagnostics.filter((diagnostic) => {
+        const { start, end } = diagnostic.range;
+        const key = `${getDiagnosticKey(diagnostic)}\u0000${start.line}:${start.character}-${end.line}:${end.character}`;
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+    for (const original of pending) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+
+        const current = vscode.languages.getDiagnostics(group.uri);
+        const lineCount = findOpenDocument(group.uri)?.lineCount;
+        const diagnostic = relocateDiagnostic(
+            original,
+            current,
+            initialLineCount === undefined || lineCount === undefined
+                ? 0
+                : lineCount - initialLineCount,
+        );
+        if (!diagnostic) {
+            results.push({
+                uri: group.uri,
+                line: original.range.start.line + 1,
+                status: "fixed",
+                detail: "resolved by an earlier fix",
+            });
+            continue;
+        }
+
+        const args: RunFixerArgs = {
+            fixerId,
+            uri: group.uri,
+            range: diagnostic.range,
+            diagnosticMessage: diagnostic.message,
+            diagnosticMessages: collectLineDiagnosticMessages(
+                current,
+                diagnostic.range.start.line,
+                group.uri,
+            ),
+            diagnostics: collectLineDiagnosticRecords(
+                current,
+                diagnostic.range.start.line,
+                group.uri,
+            ),
+        };
+        results.push(
+            await runBatchJob(
+                args,
+                await buildPrompt(args, fixerId),
+                fixerId,
+                settings,
+                token,
+            ),
+        );
+    }
+    return results;
+}
+
+function relocateDiagnostic(
+    original: vscode.Diagnostic,
+    current: readonly vscode.Diagnostic[],
+    lineDelta: number,
+): vscode.Diagnostic | undefined {
+    const key = getDiagnosticKey(original);
+    const line = original.range.start.line;
+    const window = Math.abs(lineDelta) + DIAGNOSTIC_LINE_TOLERANCE;
+    let nearest: vscode.Diagnostic | undefined;
+    for (const candidate of current) {
+        const distance = Math.abs(candidate.range.start.line - line);
+        if (
+            getDiagnosticKey(candidate) === key &&
+            distance <= window &&
+            (!nearest || distance < Math.abs(nearest.range.start.line - line))
+        ) {
+            nearest = candidate;
+        }
+    }
+    return nearest;
+}
+
+async function runBatchJob(
+    args: RunFixerArgs,
+    promptSpec: PromptSpec,
+    fixerId: CliFixerId,
+    settings: BatchSettings,
+    token: vscode.CancellationToken,
+): Promise<BatchResult> {
+    const line = args.range.start.line + 1;
+    try {
+        const result = await runQueuedFixJob(
+            args,
+            fixerId,
+            getFixerLabel(fixerId, args.uri),
+            token,
+            async (jobToken) => {
+                const before = captureDiagnosticBaseline(args.uri);
+                const attempt: FixAttemptInput = {
+                    fixerId,
+                    args,
+                    prompt: promptSpec.prompt,
+                    startedAt: Date.now(),
+                };
+                const outcome = await runCliFix(
+                    args,
+                    promptSpec,
+                    fixerId,
+                    jobToken,
+                    attempt,
+                );
+                if (outcome !== "applied" || !settings.verifyFixes) {
+                    return { outcome };
+                }
+
+                const verification = verifyDiagnostics(
+                    args,
+                    before,
+                    await waitForDiagnostics(args.uri, before),
+                );
+                await recordFixVerification(attempt, verification);
+                return { outcome, verification };
+            },
+        );
+        if (!result) {
+            return {
+                uri: args.uri,
+                line,
+                status: "skipped",
+                detail: "cancelled while queued",
+            };
+        }
+        const { outcome, verification } = result;
+        if (outcome !== "applied") {
+            return { uri: args.uri, line, status: outcome };
+        }
+        if (!verification) {
+            return { uri: args.uri, line, status: "applied" };
+        }
+
+        return {
+            uri: args.uri,
+            line,
+            status:
+                verification.stillPresent.length > 0
+                    ? "still present"
+                    : "fixed",
+            detail:
+                verification.introduced.length > 0
+                    ? `${verification.introduced.length} new error(s)`
+                    : undefined,
+        };
+    } catch (error) {
+        return {
+            uri: args.uri,
+            line,
+            status: "failed",
+            detail: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+async function runQueuedFixJob<T>(
+    args: RunFixerArgs,
+    fixerId: CliFixerId,
+    label: string,
+    token: vscode.CancellationToken | undefined,
+    run: (token: vscode.CancellationToken) => Promise<T>,
+    onQueued?: (ahead: number) => void,
+): Promise<T | undefined> {
+    const key = getFixJobKey(args.uri, fixerId);
+    const job: FixJob = {
+        id: nextFixJobId++,
+        key,
+        label,
+        file: vscode.workspace.asRelativePath(args.uri, false),
+        line: args.range.start.line + 1,
+        state: "queued",
+        queuedAt: Date.now(),
+        cancellation: new vscode.CancellationTokenSource(),
+    };
+    const forwardCancel = token?.onCancellationRequested(() =>
+        job.cancellation.cancel(),
+    );
+    const previous = fixJobTails.get(key) ?? Promise.resolve();
+    let release: () => void = () => undefined;
+    const done = new Promise<void>((resolve) => {
+        release = resolve;
+    });
+    const tail = previous.then(() => done);
+    fixJobTails.set(key, tail);
+    fixJobs.push(job);
+    updateFixQueueStatus();
+
+    try {
+        const ahead = fixJobs.filter(
+            (other) => other.key === key && other !== job,
+        ).length;
+        if (ahead > 0) {
+            onQueued?.(ahead);
+            OUTPUT.appendLine(
+                `[queue] ${label} on ${job.file}:${job.line} queued behind ${ahead} fix(es).`,
+            );
+        }
+
+        await waitUnlessCancelled(previous, job.cancellation.token);
+        if (job.cancellation.token.isCancellationRequested) {
+            OUTPUT.appendLine(
+                `[queue] Cancelled queued ${label} fix on ${job.file}:${job.line}.`,
+            );
+            return undefined;
+        }
+
+        job.state = "running";
+        updateFixQueueStatus();
+        return await run(job.cancellation.token);
+    } finally {
+        forwardCancel?.dispose();
+        job.cancellation.dispose();
+        fixJobs.splice(fixJobs.indexOf(job), 1);
+        void tail.then(() => {
+            if (fixJobTails.get(key) === tail) {
+                fixJobTails.delete(key);
+            }
+        });
+        release();
+        updateFixQueueStatus();
+    }
+}
+
+async function waitUnlessCancelled(
+    promise: Promise<void>,
+    token: vscode.CancellationToken,
+): Promise<void> {
+    let subscription: vscode.Disposable | undefined;
+    try {
+        await Promise.race([
+            promise,
+            new Promise<void>((resolve) => {
+                subscription = token.onCancellationRequested(() => resolve());
+            }),
+        ]);
+    } finally {
+        subscription?.dispose();
+    }
+}
+
+function getFixJobKey(uri: vscode.Uri, fixerId: CliFixerId): string {
+    const cliSettings = getCliSettings(uri);
+    if (
+        cliSettings.queueScope === "folder" ||
+        usesWorkspaceSnapshots(cliSettings, fixerId)
+    ) {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (folder) {
+            return folder.uri.toString();
+        }
+    }
+    return uri.toString();
+}
+
+function updateFixQueueStatus(): void {
+    if (!fixQueueStatus) {
+        return;
+    }
+    if (fixJobs.length === 0) {
+        fixQueueStatus.hide();
+        return;
+    }
+
+    const running = fixJobs.filter((job) => job.state === "running").length;
+    const queued = fixJobs.length - running;
+    fixQueueStatus.text =
+        queued > 0
+            ? `$(sync~spin) ${running} running, ${queued} queued`
+            : `$(sync~spin) ${running} running`;
+    fixQueueStatus.tooltip = [
+        "AI Quick Fix jobs",
+        ...fixJobs.map(formatFixJob),
+        "",
+        "Click to cancel jobs.",
+    ].join("\n");
+    fixQueueStatus.show();
+}
+
+function formatFixJob(job: FixJob): string {
+    return `${job.state === "running" ? "running" : "queued "} ${job.label} on ${job.file}:${job.line}`;
+}
+
+async function showFixQueue(): Promise<void> {
+    if (fixJobs.length === 0) {
+        void vscode.window.showInformationMessage(
+            "AI Quick Fix: no fixes are running or queued.",
+        );
+        return;
+    }
+
+    const queued = fixJobs.filter((job) => job.state === "queued");
+    const cancelAll: vscode.QuickPickItem & { jobs: FixJob[] } = {
+        label: "$(close-all) Cancel all queued fixes",
+        description: `${queued.length} queued`,
+        jobs: queued,
+    };
+    const picked = await vscode.window.showQuickPick<
+        vscode.QuickPickItem & { jobs: FixJob[] }
+    >(
+        [
+            ...(queued.length > 0 ? [cancelAll] : []),
+            ...fixJobs.map((job) => ({
+                label: `${job.state === "running" ? "$(sync~spin)" : "$(clock)"} ${job.label}`,
+                description: `${job.file}:${job.line}`,
+                detail:
+                    job.state === "running"
+                        ? "Running. Select to cancel it."
+                        : `Queued ${formatDuration(Date.now() - job.queuedAt)} ago. Select to cancel it.`,
+                jobs: [job],
+            })),
+        ],
+        { placeHolder: "Select an AI Quick Fix job to cancel" },
+    );
+    for (const job of picked?.jobs ?? []) {
+        if (fixJobs.includes(job)) {
+            job.cancellation.cancel();
+        }
+    }
+}
+
+function cancelQueuedFixJobs(): void {
+    for (const job of fixJobs) {
+        if (job.state === "queued") {
+            job.cancellation.cancel();
+        }
+    }
+}
+
+function cancelAllFixJobs(): void {
+    for (const job of fixJobs) {
+        job.cancellation.cancel();
+    }
+}
+
+async function runCodexFix(
+    args: RunFixerArgs,
+    promptSpec: PromptSpec,
+): Promise<void> {
+    await assertCommandAvailable(
+        CODEX_COMMAND,
+        "Codex quick fix requires the OpenAI ChatGPT VS Code extension.",
+    );
+    await vscode.commands.executeCommand(CODEX_COMMAND, {
+        fileName: encodeURIComponent(args.uri.fsPath),
+        line: promptSpec.line,
+        comment: promptSpec.prompt,
+    });
+    OUTPUT.appendLine(
+        `[codex] Sent minimal prompt to line ${promptSpec.line}.`,
     );
 }
 
@@ -277,169 +1930,2022 @@ async function runClaudeFix(prompt: string): Promise<void> {
     const editorAvailable = await isCommandAvailable(CLAUDE_EDITOR_COMMAND);
     const terminalAvailable = await isCommandAvailable(CLAUDE_TERMINAL_COMMAND);
 
-    if (!editorAvailable && !terminalAvailable) {
-        throw new Error(
-            "Claude quick fix requires the Claude Code VS Code extension.",
+    if (!editorAvailable && !terminalAvailable) {
+        throw new Error(
+            "Claude quick fix requires the Claude Code VS Code extension.",
+        );
+    }
+
+    const failures: string[] = [];
+    if (editorAvailable) {
+        const sessionId = makeClaudeSessionId();
+        try {
+            await vscode.commands.executeCommand(
+                CLAUDE_EDITOR_COMMAND,
+                sessionId,
+                prompt,
+            );
+            OUTPUT.appendLine(
+                "[claude] Opened Claude chat and submitted prompt.",
+            );
+            return;
+        } catch (error) {
+            const message =
+                error instanceof Error ? error.message : String(error);
+            failures.push(`editor flow failed: ${message}`);
+        }
+    }
+
+    if (terminalAvailable) {
+        try {
+            await vscode.commands.executeCommand(
+                CLAUDE_TERMINAL_COMMAND,
+                prompt,
+                ["-p"],
+                "beside",
+            );
+            OUTPUT.appendLine(
+                "[claude] Submitted prompt through Claude terminal fallback.",
+            );
+            return;
+        } catch (error) {
+            const message =
+                error instanceof Error ? error.message : String(error);
+            failures.push(`terminal fallback failed: ${message}`);
+        }
+    }
+
+    throw new Error(
+        `Claude quick fix failed. ${failures.join(" | ") || "No executable route was available."}`,
+    );
+}
+
+async function runHttpFix(
+    args: RunFixerArgs,
+    promptSpec: PromptSpec,
+    token?: vscode.CancellationToken,
+): Promise<void> {
+    const settings = getHttpFixerSettings(args.uri);
+    const label = settings.label;
+    const attempt: FixAttemptInput = {
+        fixerId: "http",
+        args,
+        prompt: promptSpec.prompt,
+        startedAt: Date.now(),
+        route: settings.url,
+    };
+    const fail = async (message: string): Promise<Error> => {
+        appendOutputBox(`${label} Quick Fix Failed`, [
+            { heading: "Endpoint", content: settings.url },
+            { heading: "Error", content: message },
+        ]);
+        await recordFixAttempt(attempt, "failed", message);
+        return new Error(`${label} failed: ${message}`);
+    };
+
+    const exceededBudget = findExceededTokenBudget("hard");
+    if (exceededBudget) {
+        throw await fail(`not run: ${exceededBudget}.`);
+    }
+    warnOnSoftTokenBudget();
+
+    const document = await vscode.workspace.openTextDocument(args.uri);
+    const startLine = clampLineNumber(document, args.range.start.line);
+    const endLine = Math.max(
+        startLine,
+        clampLineNumber(document, args.range.end.line),
+    );
+    const range = new vscode.Range(
+        startLine,
+        0,
+        endLine,
+        document.lineAt(endLine).text.length,
+    );
+    const requestPrompt = buildHttpPrompt(
+        promptSpec.prompt,
+        startLine + 1,
+        endLine + 1,
+        redactPrompt(document.getText(range), args.uri, promptSpec.secrets),
+    );
+    attempt.prompt = requestPrompt;
+    const version = document.version;
+
+    const apiKey = await extensionContextRef?.secrets.get(
+        HTTP_FIXER_API_KEY_SECRET,
+    );
+    let reply: ChatCompletionReply;
+    try {
+        reply = parseChatCompletion(
+            await postJson(
+                settings.url,
+                {
+                    ...(settings.model ? { model: settings.model } : {}),
+                    messages: [
+                        { role: "system", content: HTTP_FIXER_SYSTEM_PROMPT },
+                        { role: "user", content: requestPrompt },
+                    ],
+                    temperature: 0,
+                    stream: false,
+                },
+                apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+                getCliSettings(args.uri).runTimeoutMs,
+                token,
+            ),
+        );
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        if (token?.isCancellationRequested) {
+            appendOutputBox(`${label} Quick Fix Cancelled`, [
+                { heading: "Endpoint", content: settings.url },
+            ]);
+            await recordFixAttempt(attempt, "cancelled", msg);
+            return;
+        }
+        throw await fail(msg);
+    }
+
+    attempt.usage = reply.usage;
+    await recordTokenUsage(
+        requestPrompt.length + reply.content.length,
+        reply.usage,
+    );
+    const snippet = extractReplacementSnippet(reply.content);
+    const replacement =
+        snippet === undefined
+            ? undefined
+            : restoreRedactedText(snippet, promptSpec.secrets);
+    if (replacement === undefined) {
+        throw await fail("endpoint returned no replacement code.");
+    }
+    if (document.version !== version) {
+        throw await fail(
+            "the file changed while waiting for the endpoint; edit not applied.",
+        );
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+        args.uri,
+        range,
+        document.eol === vscode.EndOfLine.CRLF
+            ? replacement.replace(/\r?\n/g, "\r\n")
+            : replacement,
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        throw await fail("VS Code rejected the workspace edit.");
+    }
+
+    const summary =
+        startLine === endLine
+            ? `Replaced line ${startLine + 1}.`
+            : `Replaced lines ${startLine + 1}-${endLine + 1}.`;
+    const sections = [
+        { heading: "Endpoint", content: settings.url },
+        ...(getCliSettings(args.uri).outputMode === "verbose"
+            ? [
+                  { heading: "Prompt", content: requestPrompt },
+                  {
+                      heading: "Response",
+                      content: truncateForBox(
+                          reply.content,
+                          MAX_BOX_CONTENT_CHARS,
+                      ),
+                  },
+              ]
+            : []),
+        { heading: "Result", content: summary },
+    ];
+    if (reply.usage && hasCliUsage(reply.usage)) {
+        sections.push({
+            heading: "Usage",
+            content: formatCliUsage(reply.usage),
+        });
+    }
+    appendOutputBox(`${label} Quick Fix`, sections);
+    await recordFixAttempt(attempt, "success", summary);
+}
+
+function buildHttpPrompt(
+    prompt: string,
+    startLine: number,
+    endLine: number,
+    original: string,
+): string {
+    const target =
+        startLine === endLine
+            ? `line ${startLine}`
+            : `lines ${startLine}-${endLine}`;
+    return `${prompt}\nReplace ${target} of the file. Current content of ${target}:\n\`\`\`\n${original}\n\`\`\`\nReply with only the corrected replacement for exactly ${target} in a single fenced code block, without line numbers or explanations.`;
+}
+
+async function promptForHttpApiKey(
+    secrets: vscode.SecretStorage,
+): Promise<void> {
+    const value = await vscode.window.showInputBox({
+        title: "AI Quick Fix: HTTP endpoint API key",
+        prompt: "Bearer token sent to the HTTP endpoint. Leave empty to remove the stored key.",
+        password: true,
+        ignoreFocusOut: true,
+    });
+    if (value === undefined) {
+        return;
+    }
+
+    if (value.trim()) {
+        await secrets.store(HTTP_FIXER_API_KEY_SECRET, value.trim());
+        OUTPUT.appendLine("[http] Stored the HTTP endpoint API key.");
+    } else {
+        await secrets.delete(HTTP_FIXER_API_KEY_SECRET);
+        OUTPUT.appendLine("[http] Removed the HTTP endpoint API key.");
+    }
+}
+
+function getHttpFixerSettings(
+    scope?: vscode.ConfigurationScope,
+): HttpFixerSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    const label = config.get<unknown>("http-fixer-label");
+    const url = config.get<unknown>("http-fixer-url");
+    const model = config.get<unknown>("http-fixer-model");
+    return {
+        label:
+            typeof label === "string" && label.trim()
+                ? label.trim()
+                : FIXERS.http.label,
+        url:
+            typeof url === "string" && url.trim()
+                ? url.trim()
+                : DEFAULT_HTTP_FIXER_URL,
+        model: typeof model === "string" ? model.trim() : "",
+    };
+}
+
+async function runCliFix(
+    args: RunFixerArgs,
+    promptSpec: PromptSpec,
+    fixerId: CliFixerId,
+    token?: vscode.CancellationToken,
+    attempt: FixAttemptInput = {
+        fixerId,
+        args,
+        prompt: promptSpec.prompt,
+        startedAt: Date.now(),
+    },
+): Promise<CliFixOutcome> {
+    const cliSettings = getCliSettings(args.uri);
+    const label = getFixerLabel(fixerId, args.uri);
+    const folder = vscode.workspace.getWorkspaceFolder(args.uri);
+    const folderSections = getFolderSections(folder);
+    if (!vscode.workspace.isTrusted) {
+        const message = `${label} is disabled in Restricted Mode. Trust this workspace to run CLI fixers.`;
+        await recordFixAttempt(attempt, "failed", message);
+        throw new Error(message);
+    }
+    const exceededBudget = findExceededTokenBudget("hard");
+    if (exceededBudget) {
+        const message = `${label} was not run: ${exceededBudget}.`;
+        await recordFixAttempt(attempt, "failed", message);
+        throw new Error(message);
+    }
+    warnOnSoftTokenBudget();
+
+    const baseRoute = await getCliRoute(fixerId, folder);
+    if (!baseRoute) {
+        const message = getPinnedRouteId(fixerId, folder)
+            ? `${label} was not run: ${formatPinnedRouteUnavailable(fixerId, folder)}`
+            : `${label} is enabled, but no working CLI route was found.`;
+        await recordFixAttempt(attempt, "failed", message);
+        throw new Error(message);
+    }
+
+    const patchMode = usesPatchMode(cliSettings, fixerId);
+    const unsaved = patchMode
+        ? undefined
+        : await resolveUnsavedTarget(
+              label,
+              args.uri,
+              cliSettings.unsavedChanges,
+          );
+    if (unsaved) {
+        await recordFixAttempt(attempt, unsaved.status, unsaved.message);
+        if (unsaved.status === "cancelled") {
+            OUTPUT.appendLine(`[unsaved] ${unsaved.message}`);
+            return "cancelled";
+        }
+        throw new Error(unsaved.message);
+    }
+
+    const cwd = getCommandWorkingDirectory(args.uri);
+    const cliPrompt = await buildCliPrompt(args.uri, promptSpec, fixerId);
+    attempt.prompt = cliPrompt;
+    const routes = getPinnedRoute(fixerId, folder)
+        ? [baseRoute]
+        : rankCliRoutes(
+              getCliRouteCandidates(fixerId, folder),
+              folder,
+              baseRoute.id,
+          );
+    const failures: string[] = [];
+    let sawInvocationFailureOnly = true;
+    let cancelled = false;
+    const snapshot = usesWorkspaceSnapshots(cliSettings, fixerId)
+        ? await captureFileSnapshot(cwd, args.uri)
+        : undefined;
+    const openDocumentTimes = await captureOpenDocumentTimes(cwd);
+    const targetBefore =
+        promptSpec.secrets.size > 0 && !patchMode
+            ? await readSnapshotFile(args.uri.fsPath)
+            : undefined;
+
+    for (const route of routes) {
+        if (token?.isCancellationRequested) {
+            cancelled = true;
+            break;
+        }
+
+        if (route.id !== baseRoute.id) {
+            const probeOk = await probeRoute(route, cwd);
+            if (!probeOk) {
+                continue;
+            }
+        }
+
+        const stream =
+            cliSettings.outputMode === "streaming"
+                ? createOutputStream(`${label} via ${route.display}`)
+                : undefined;
+        const runStartedAt = Date.now();
+        const run = await runCliRoute(
+            route,
+            cliPrompt,
+            cwd,
+            cliSettings.runTimeoutMs,
+            async (command) =>
+                !cliSettings.confirmFirstRun ||
+                (await confirmCliRoute(label, route, command, cwd)),
+            token,
+            stream?.write,
+        );
+        stream?.end();
+        if (!run) {
+            cancelled = true;
+            attempt.route = route.display;
+            failures.push(`${route.display}: run was not confirmed.`);
+            break;
+        }
+        const { result, report } = run;
+        if (report || isProcessSuccess(result)) {
+            await recordTokenUsage(
+                cliPrompt.length + result.stdout.length + result.stderr.length,
+                report?.usage,
+            );
+        }
+        if (result.cancelled) {
+            cancelled = true;
+            attempt.route = route.display;
+            failures.push(`${route.display}: ${formatProcessFailure(result)}`);
+            break;
+        }
+
+        const sandboxDenied =
+            !patchMode &&
+            (report ? report.sandboxDenied : isReadOnlySandboxNotice(result));
+        if (result.timedOut) {
+            await recordRouteRun(route, folder, "timeout", 0);
+        } else if (
+            sandboxDenied ||
+            (!isProcessSuccess(result) && isInvocationFailure(result))
+        ) {
+            await recordRouteRun(route, folder, "failure", 0);
+        } else if (isProcessSuccess(result) && !report?.isError) {
+            await recordRouteRun(
+                route,
+                folder,
+                "success",
+                Date.now() - runStartedAt,
+            );
+        }
+
+        if (sandboxDenied) {
+            sawInvocationFailureOnly = false;
+            failures.push(
+                `${route.display}: reported read-only sandbox, so no file edits were saved.`,
+            );
+            continue;
+        }
+
+        if (isProcessSuccess(result) && !report?.isError) {
+            await setCachedCliRoute(fixerId, folder, route);
+            attempt.route = route.display;
+            attempt.usage = report?.usage;
+            if (patchMode) {
+                await applyCliPatch(
+                    label,
+                    route,
+                    cwd,
+                    report?.output ?? result.stdout,
+                    attempt,
+                    promptSpec.secrets,
+                );
+                return "applied";
+            }
+            const changes = snapshot
+                ? await collectFileChanges(snapshot)
+                : undefined;
+            const unmasked = await restoreRedactedFiles(
+                cwd,
+                [
+                    ...(targetBefore ? [args.uri.fsPath] : []),
+                    ...(report?.changedFiles ?? []).map((file) =>
+                        path.resolve(cwd, file),
+                    ),
+                    ...(changes ?? [])
+                        .filter((change) => change.kind !== "deleted")
+                        .map((change) => change.fsPath),
+                    ...(await listChangedOpenDocuments(openDocumentTimes)),
+                ],
+                promptSpec.secrets,
+                (fsPath) =>
+                    snapshot?.files.get(fsPath)?.content ??
+                    (fsPath === args.uri.fsPath ? targetBefore : undefined),
+            );
+            for (const change of changes ?? []) {
+                if (unmasked.includes(change.fsPath)) {
+                    change.after = await readSnapshotFile(change.fsPath);
+                }
+            }
+            await reconcileOpenDocuments(label, cwd, openDocumentTimes);
+            const summary = report?.summary ?? getMinimalProcessSummary(result);
+            const sections =
+                cliSettings.outputMode === "verbose"
+                    ? [
+                          ...folderSections,
+                          { heading: "Route", content: route.display },
+                          { heading: "Prompt", content: cliPrompt },
+                          {
+                              heading: "CLI Output",
+                              content:
+                                  (report
+                                      ? truncateForBox(
+                                            report.output,
+                                            MAX_BOX_CONTENT_CHARS,
+                                        )
+                                      : getProcessOutputText(result)) ||
+                                  "(command returned no output)",
+                          },
+                      ]
+                    : [
+                          ...folderSections,
+                          { heading: "Route", content: route.display },
+                          { heading: "Result", content: summary },
+                      ];
+            if (report && hasCliUsage(report.usage)) {
+                sections.push({
+                    heading: "Usage",
+                    content: formatCliUsage(report.usage),
+                });
+            }
+            if (unmasked.length > 0) {
+                sections.push({
+                    heading: "Redaction",
+                    content: `Restored masked values the agent wrote to:\n${unmasked
+                        .map((fsPath) => path.relative(cwd, fsPath))
+                        .join("\n")}`,
+                });
+            }
+            const reportedFiles =
+                report?.changedFiles && report.changedFiles.length > 0
+                    ? {
+                          heading: "Changed Files",
+                          content: report.changedFiles.join("\n"),
+                      }
+                    : undefined;
+            if (!snapshot || !changes) {
+                if (reportedFiles) {
+                    sections.push(reportedFiles);
+                }
+                appendOutputBox(`${label} Quick Fix`, sections);
+                await recordFixAttempt(attempt, "success", summary);
+                return "applied";
+            }
+
+            if (
+                cliSettings.reviewChanges ||
+                cliSettings.outputMode === "verbose"
+            ) {
+                sections.push({
+                    heading: "Changed Files",
+                    content: formatFileChanges(snapshot.root, changes),
+                });
+            } else if (reportedFiles) {
+                sections.push(reportedFiles);
+            }
+            appendOutputBox(`${label} Quick Fix`, sections);
+
+            if (cliSettings.reviewChanges) {
+                if (!(await reviewFileChanges(label, snapshot, changes))) {
+                    const restored = await restoreFileChanges(changes);
+                    await reconcileOpenDocuments(
+                        label,
+                        snapshot.root,
+                        openDocumentTimes,
+                    );
+                    const message = formatRestoreSummary(
+                        restored.length,
+                        changes.length - restored.length,
+                    );
+                    OUTPUT.appendLine(`[review] Rejected; ${message}`);
+                    await recordFixAttempt(
+                        attempt,
+                        "rejected",
+                        `Changes rejected; ${message}`,
+                    );
+                    return "rejected";
+                }
+                if (changes.length > 0) {
+                    OUTPUT.appendLine(
+                        `[review] Kept ${changes.length} changed file(s).`,
+                    );
+                }
+            }
+
+            recordFixHistory(
+                {
+                    label,
+                    file: vscode.workspace.asRelativePath(args.uri, false),
+                    line: args.range.start.line + 1,
+                    timestamp: Date.now(),
+                    root: snapshot.root,
+                    changes,
+                },
+                cliSettings.undoHistorySize,
+            );
+            await recordFixAttempt(attempt, "success", summary);
+            return "applied";
+        }
+
+        attempt.route = route.display;
+        if (report?.isError) {
+            attempt.usage = report.usage;
+            failures.push(`${route.display}: ${report.summary}`);
+            sawInvocationFailureOnly = false;
+            break;
+        }
+        failures.push(`${route.display}: ${formatProcessFailure(result)}`);
+        if (!isInvocationFailure(result)) {
+            sawInvocationFailureOnly = false;
+            break;
+        }
+    }
+
+    if (sawInvocationFailureOnly && !cancelled) {
+        await setCachedCliRoute(fixerId, folder, null);
+    }
+
+    const summary =
+        failures.length > 0
+            ? failures[0]
+            : "no executable command route was accepted.";
+    const title = cancelled
+        ? `${label} Quick Fix Cancelled`
+        : `${label} Quick Fix Failed`;
+    if (cliSettings.outputMode === "verbose") {
+        appendOutputBox(title, [
+            ...folderSections,
+            { heading: "Prompt", content: cliPrompt },
+            {
+                heading: "Route Failures",
+                content: summarizeFailures(failures),
+            },
+        ]);
+    } else {
+        appendOutputBox(title, [
+            ...folderSections,
+            {
+                heading: "Route Failures",
+                content: summarizeFailures(failures),
+            },
+        ]);
+    }
+    if (cancelled) {
+        await recordFixAttempt(attempt, "cancelled", summary);
+        return "cancelled";
+    }
+    await recordFixAttempt(attempt, "failed", summary);
+    throw new Error(`${label} failed: ${summary}`);
+}
+
+function usesStructuredRun(route: CliRoute, streaming: boolean): boolean {
+    return (
+        !!route.structuredRun &&
+        !!route.outputFormat &&
+        !streaming &&
+        !structuredOutputUnsupported.has(route.id)
+    );
+}
+
+async function confirmCliRoute(
+    label: string,
+    route: CliRoute,
+    command: CommandSpec,
+    cwd: string,
+): Promise<boolean> {
+    if (!extensionContextRef) {
+        return true;
+    }
+
+    const state = extensionContextRef.workspaceState;
+    const confirmed = state.get<unknown>(CLI_CONFIRMED_COMMANDS_STATE_KEY, []);
+    const commandHashes = Array.isArray(confirmed)
+        ? confirmed.filter((hash): hash is string => typeof hash === "string")
+        : [];
+    const commandLine = formatCommandLine(command);
+    const commandHash = createHash("sha256").update(commandLine).digest("hex");
+    if (commandHashes.includes(commandHash)) {
+        return true;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        `AI Quick Fix: run ${label} via ${route.display} in this workspace?`,
+        {
+            modal: true,
+            detail: `Command:\n${truncateForBox(commandLine, MAX_BOX_CONTENT_CHARS)}\n\nWorking directory: ${cwd}\n\nYou will not be asked again for this command in this workspace.`,
+        },
+        "Run",
+    );
+    if (choice !== "Run") {
+        OUTPUT.appendLine(
+            `[confirm] ${label} via ${route.display} was not confirmed.`,
+        );
+        return false;
+    }
+
+    await state.update(CLI_CONFIRMED_COMMANDS_STATE_KEY, [
+        ...commandHashes,
+        commandHash,
+    ]);
+    return true;
+}
+
+function formatCommandLine(spec: CommandSpec): string {
+    return [spec.command, ...spec.args]
+        .map((part) =>
+            /^[\w@%+=:,./-]+$/.test(part) ? part : quoteForPosixShell(part),
+        )
+        .join(" ");
+}
+
+async function runCliRoute(
+    route: CliRoute,
+    prompt: string,
+    cwd: string,
+    timeoutMs: number,
+    confirm: (command: CommandSpec) => Promise<boolean>,
+    token?: vscode.CancellationToken,
+    onOutput?: (chunk: string) => void,
+): Promise<{ result: ProcessResult; report?: CliRunReport } | undefined> {
+    if (
+        route.structuredRun &&
+        route.outputFormat &&
+        usesStructuredRun(route, !!onOutput)
+    ) {
+        if (!(await confirm(route.structuredRun(PROMPT_PLACEHOLDER)))) {
+            return undefined;
+        }
+        const result = await runCommand(
+            route.structuredRun(prompt),
+            cwd,
+            timeoutMs,
+            token,
+            undefined,
+            true,
+        );
+        const report = parseCliRunReport(route.outputFormat, result);
+        if (report || !isStructuredOutputRejected(result)) {
+            return { result, report };
+        }
+        structuredOutputUnsupported.add(route.id);
+        OUTPUT.appendLine(
+            `[routes] ${route.display} does not accept structured output; falling back to text output.`,
+        );
+    }
+
+    if (!(await confirm(route.buildRun(PROMPT_PLACEHOLDER)))) {
+        return undefined;
+    }
+    const result = await runCommand(
+        route.buildRun(prompt),
+        cwd,
+        timeoutMs,
+        token,
+        onOutput,
+    );
+    return { result };
+}
+
+function parseCliRunReport(
+    format: CliOutputFormat,
+    result: ProcessResult,
+): CliRunReport | undefined {
+    switch (format) {
+        case "claude-json":
+            return parseClaudeJsonOutput(result.stdout);
+        case "codex-json":
+            return parseCodexJsonEvents(result.stdout);
+    }
+}
+
+function parseCodexJsonEvents(stdout: string): CliRunReport | undefined {
+    const events = stdout
+        .split(/\r?\n/)
+        .map((line) => parseJsonObject(line.trim()))
+        .filter((event): event is Record<string, unknown> => !!event)
+        .map((event) => (isRecord(event.msg) ? event.msg : event));
+    if (events.length === 0) {
+        return undefined;
+    }
+
+    const changedFiles = new Set<string>();
+    const messages: string[] = [];
+    const usage: CliUsage = {};
+    let error: string | undefined;
+    let sandboxDenied = false;
+
+    for (const event of events) {
+        const item = isRecord(event.item) ? event.item : event;
+        switch (item.type) {
+            case "thread.started":
+            case "session_configured": {
+                const id = item.thread_id ?? item.session_id;
+                if (typeof id === "string") {
+                    usage.sessionId = id;
+                }
+                break;
+            }
+            case "file_change":
+            case "patch_apply_begin":
+            case "patch_apply_end": {
+                if (item.status === "failed" || item.success === false) {
+                    sandboxDenied ||= isCodexSandboxDenial(item);
+                    break;
+                }
+                for (const file of getCodexChangedPaths(item.changes)) {
+                    changedFiles.add(file);
+                }
+                break;
+            }
+            case "command_execution":
+                sandboxDenied ||= isCodexSandboxDenial(item);
+                break;
+            case "exec_approval_request":
+            case "apply_patch_approval_request":
+                sandboxDenied = true;
+                break;
+            case "agent_message": {
+                const text = item.text ?? item.message;
+                if (typeof text === "string") {
+                    messages.push(text);
+                }
+                break;
+            }
+            case "turn.completed":
+            case "token_count": {
+                const counts = isRecord(item.usage) ? item.usage : item;
+                const input = counts.input_tokens;
+                const output = counts.output_tokens;
+                if (typeof input === "number") {
+                    usage.inputTokens = input;
+                }
+                if (typeof output === "number") {
+                    usage.outputTokens = output;
+                }
+                break;
+            }
+            case "turn.failed":
+            case "error": {
+                if (item !== event) {
+                    break;
+                }
+                const message = isRecord(item.error)
+                    ? item.error.message
+                    : item.message;
+                error =
+                    typeof message === "string"
+                        ? message
+                        : "Codex reported an error.";
+                break;
+            }
+        }
+    }
+
+    const output = messages.join("\n");
+    return {
+        summary: error ?? summarizeOutputText(output),
+        output: error ? `${output}\n${error}`.trim() : output,
+        isError: error !== undefined,
+        usage,
+        sandboxDenied,
+        changedFiles: [...changedFiles],
+    };
+}
+
+function getCodexChangedPaths(changes: unknown): string[] {
+    if (Array.isArray(changes)) {
+        return changes
+            .map((change) => (isRecord(change) ? change.path : undefined))
+            .filter((file): file is string => typeof file === "string");
+    }
+    return isRecord(changes) ? Object.keys(changes) : [];
+}
+
+function isCodexSandboxDenial(item: Record<string, unknown>): boolean {
+    return [item.status, item.decision].some(
+        (value) =>
+            typeof value === "string" &&
+            CODEX_DENIED_STATUSES.has(value.toLowerCase()),
+    );
+}
+
+function parseClaudeJsonOutput(stdout: string): CliRunReport | undefined {
+    const message =
+        parseJsonObject(stdout.trim()) ??
+        parseJsonObject(
+            stdout
+                .split(/\r?\n/)
+                .map((line) => line.trim())
+                .filter((line) => line.startsWith("{"))
+                .pop() ?? "",
+        );
+    if (!message || typeof message.result !== "string") {
+        return undefined;
+    }
+
+    const usage = isRecord(message.usage) ? message.usage : {};
+    const inputTokens = [
+        usage.input_tokens,
+        usage.cache_creation_input_tokens,
+        usage.cache_read_input_tokens,
+    ]
+        .filter((value): value is number => typeof value === "number")
+        .reduce<number | undefined>(
+            (sum, value) => (sum ?? 0) + value,
+            undefined,
+        );
+    const cost = message.total_cost_usd ?? message.cost_usd;
+
+    return {
+        summary: summarizeOutputText(message.result),
+        output: message.result,
+        isError: message.is_error === true,
+        usage: {
+            sessionId:
+                typeof message.session_id === "string"
+                    ? message.session_id
+                    : undefined,
+            inputTokens,
+            outputTokens:
+                typeof usage.output_tokens === "number"
+                    ? usage.output_tokens
+                    : undefined,
+            costUsd: typeof cost === "number" ? cost : undefined,
+        },
+    };
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | undefined {
+    if (!text) {
+        return undefined;
+    }
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return isRecord(parsed) ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasCliUsage(usage: CliUsage): boolean {
+    return (
+        usage.sessionId !== undefined ||
+        usage.inputTokens !== undefined ||
+        usage.outputTokens !== undefined ||
+        usage.costUsd !== undefined
+    );
+}
+
+function formatCliUsage(usage: CliUsage): string {
+    const parts: string[] = [];
+    if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+        parts.push(
+            `${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out tokens`,
+        );
+    }
+    if (usage.costUsd !== undefined) {
+        parts.push(`$${usage.costUsd.toFixed(4)}`);
+    }
+    if (usage.sessionId) {
+        parts.push(`session ${usage.sessionId}`);
+    }
+    return parts.join(" · ") || "(no usage reported)";
+}
+
+function getTodayKey(): string {
+    const now = new Date();
+    const month = String(now.getMonth() + 1).padStart(2, "0");
+    const day = String(now.getDate()).padStart(2, "0");
+    return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function getTokenUsage(memento: vscode.Memento | undefined): TokenUsageTotals {
+    const today = getTodayKey();
+    const stored = memento?.get<TokenUsageTotals>(TOKEN_USAGE_STATE_KEY);
+    return stored && stored.day === today
+        ? stored
+        : { day: today, tokens: 0, costUsd: 0, runs: 0 };
+}
+
+function getWorkspaceTokenTotal(
+    memento: vscode.Memento | undefined,
+): TokenUsageTotals {
+    return (
+        memento?.get<TokenUsageTotals>(TOKEN_USAGE_TOTAL_STATE_KEY) ?? {
+            day: getTodayKey(),
+            tokens: 0,
+            costUsd: 0,
+            runs: 0,
+        }
+    );
+}
+
+async function recordTokenUsage(
+    estimatedChars: number,
+    usage: CliUsage | undefined,
+): Promise<void> {
+    const update = tokenUsageUpdates.then(() =>
+        addTokenUsage(estimatedChars, usage),
+    );
+    tokenUsageUpdates = update.catch(() => undefined);
+    await update;
+}
+
+async function addTokenUsage(
+    estimatedChars: number,
+    usage: CliUsage | undefined,
+): Promise<void> {
+    if (!extensionContextRef) {
+        return;
+    }
+
+    const tokens =
+        usage?.inputTokens !== undefined || usage?.outputTokens !== undefined
+            ? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)
+            : Math.ceil(estimatedChars / CHARS_PER_TOKEN_ESTIMATE);
+    for (const memento of [
+        extensionContextRef.globalState,
+        extensionContextRef.workspaceState,
+    ]) {
+        const totals = getTokenUsage(memento);
+        await memento.update(TOKEN_USAGE_STATE_KEY, {
+            day: totals.day,
+            tokens: totals.tokens + tokens,
+            costUsd: totals.costUsd + (usage?.costUsd ?? 0),
+            runs: totals.runs + 1,
+        });
+    }
+    const total = getWorkspaceTokenTotal(extensionContextRef.workspaceState);
+    await extensionContextRef.workspaceState.update(
+        TOKEN_USAGE_TOTAL_STATE_KEY,
+        {
+            day: total.day,
+            tokens: total.tokens + tokens,
+            costUsd: total.costUsd + (usage?.costUsd ?? 0),
+            runs: total.runs + 1,
+        },
+    );
+    updateTokenUsageStatus();
+}
+
+function getTokenBudgetSettings(): TokenBudgetSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix");
+    return {
+        dailySoft: parseNonNegativeInteger(
+            config.get<unknown>("token-budget-daily-soft"),
+            0,
+        ),
+        dailyHard: parseNonNegativeInteger(
+            config.get<unknown>("token-budget-daily-hard"),
+            0,
+        ),
+        workspaceSoft: parseNonNegativeInteger(
+            config.get<unknown>("token-budget-workspace-soft"),
+            0,
+        ),
+        workspaceHard: parseNonNegativeInteger(
+            config.get<unknown>("token-budget-workspace-hard"),
+            0,
+        ),
+    };
+}
+
+function findExceededTokenBudget(kind: "soft" | "hard"): string | undefined {
+    const settings = getTokenBudgetSettings();
+    const budgets = [
+        {
+            scope: "daily",
+            used: getTokenUsage(extensionContextRef?.globalState).tokens,
+            limit: kind === "soft" ? settings.dailySoft : settings.dailyHard,
+        },
+        {
+            scope: "workspace",
+            used: getTokenUsage(extensionContextRef?.workspaceState).tokens,
+            limit:
+                kind === "soft"
+                    ? settings.workspaceSoft
+                    : settings.workspaceHard,
+        },
+    ];
+    const exceeded = budgets.find(
+        (budget) => budget.limit > 0 && budget.used >= budget.limit,
+    );
+    return exceeded
+        ? `${exceeded.scope} token budget of ${exceeded.limit} reached (${exceeded.used} used today)`
+        : undefined;
+}
+
+function warnOnSoftTokenBudget(): void {
+    const exceeded = findExceededTokenBudget("soft");
+    const today = getTodayKey();
+    if (!exceeded || tokenBudgetWarnedDay === today) {
+        return;
+    }
+    tokenBudgetWarnedDay = today;
+    OUTPUT.appendLine(`[budget] Soft ${exceeded}.`);
+    void vscode.window.showWarningMessage(`AI Quick Fix: soft ${exceeded}.`);
+}
+
+function updateTokenUsageStatus(): void {
+    if (!tokenUsageStatus) {
+        return;
+    }
+    if (getEnabledCliFixerIds().length === 0) {
+        tokenUsageStatus.hide();
+        return;
+    }
+
+    const daily = getTokenUsage(extensionContextRef?.globalState);
+    const workspace = getTokenUsage(extensionContextRef?.workspaceState);
+    const total = getWorkspaceTokenTotal(extensionContextRef?.workspaceState);
+    const settings = getTokenBudgetSettings();
+    const formatTotals = (totals: TokenUsageTotals): string =>
+        `${totals.tokens} tokens, $${totals.costUsd.toFixed(4)}, ${totals.runs} run(s)`;
+    const formatLimits = (soft: number, hard: number): string =>
+        `soft ${soft || "none"} / hard ${hard || "none"}`;
+
+    tokenUsageStatus.text = `$(pulse) ${formatTokenCount(total.tokens)}`;
+    tokenUsageStatus.tooltip = [
+        `AI Quick Fix usage for ${daily.day}`,
+        `All workspaces: ${formatTotals(daily)}`,
+        `This workspace: ${formatTotals(workspace)}`,
+        `This workspace since ${total.day}: ${formatTotals(total)}`,
+        `Daily budget: ${formatLimits(settings.dailySoft, settings.dailyHard)}`,
+        `Workspace budget: ${formatLimits(settings.workspaceSoft, settings.workspaceHard)}`,
+        "Token counts are estimated when a CLI does not report usage.",
+    ].join("\n");
+    tokenUsageStatus.backgroundColor = findExceededTokenBudget("hard")
+        ? new vscode.ThemeColor("statusBarItem.errorBackground")
+        : findExceededTokenBudget("soft")
+          ? new vscode.ThemeColor("statusBarItem.warningBackground")
+          : undefined;
+    tokenUsageStatus.show();
+}
+
+function formatTokenCount(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+async function resolveUnsavedTarget(
+    label: string,
+    uri: vscode.Uri,
+    policy: UnsavedChangesPolicy,
+): Promise<{ status: FixAttemptStatus; message: string } | undefined> {
+    const document = vscode.workspace.textDocuments.find(
+        (candidate) => candidate.uri.toString() === uri.toString(),
+    );
+    if (!document?.isDirty) {
+        return undefined;
+    }
+
+    const file = vscode.workspace.asRelativePath(uri, false);
+    if (policy === "abort") {
+        return {
+            status: "cancelled",
+            message: `${label} was not run because ${file} has unsaved changes.`,
+        };
+    }
+    if (policy === "refuse") {
+        return {
+            status: "failed",
+            message: `${file} has unsaved changes; save it before running ${label}.`,
+        };
+    }
+    if (policy === "ask") {
+        const choice = await vscode.window.showWarningMessage(
+            `AI Quick Fix: ${file} has unsaved changes. ${label} works on the file on disk.`,
+            "Save and Run",
+        );
+        if (choice !== "Save and Run") {
+            return {
+                status: "cancelled",
+                message: `${label} was not run because ${file} has unsaved changes.`,
+            };
+        }
+    }
+
+    if (!(await document.save())) {
+        return {
+            status: "failed",
+            message: `Could not save ${file} before running ${label}.`,
+        };
+    }
+    return undefined;
+}
+
+async function captureOpenDocumentTimes(
+    root: string,
+): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    for (const document of vscode.workspace.textDocuments) {
+        if (
+            document.uri.scheme !== "file" ||
+            !isPathInside(root, document.uri.fsPath)
+        ) {
+            continue;
+        }
+        try {
+            times.set(
+                document.uri.fsPath,
+                (await fs.stat(document.uri.fsPath)).mtimeMs,
+            );
+        } catch {
+            continue;
+        }
+    }
+    return times;
+}
+
+async function reconcileOpenDocuments(
+    label: string,
+    root: string,
+    before: Map<string, number>,
+): Promise<void> {
+    for (const document of vscode.workspace.textDocuments) {
+        const fsPath = document.uri.fsPath;
+        if (document.uri.scheme !== "file" || !isPathInside(root, fsPath)) {
+            continue;
+        }
+
+        let disk: string;
+        try {
+            if ((await fs.stat(fsPath)).mtimeMs === before.get(fsPath)) {
+                continue;
+            }
+            disk = await fs.readFile(fsPath, "utf8");
+        } catch {
+            continue;
+        }
+        if (disk === document.getText()) {
+            continue;
+        }
+
+        if (!document.isDirty) {
+            await vscode.commands.executeCommand(
+                "workbench.action.files.revert",
+                document.uri,
+            );
+            continue;
+        }
+
+        const file = vscode.workspace.asRelativePath(document.uri, false);
+        OUTPUT.appendLine(
+            `[unsaved] ${label} changed ${file} on disk, but the editor has unsaved changes.`,
+        );
+        void resolveUnsavedConflict(label, document, disk, file);
+    }
+}
+
+async function resolveUnsavedConflict(
+    label: string,
+    document: vscode.TextDocument,
+    disk: string,
+    file: string,
+): Promise<void> {
+    const diskUri = document.uri.with({
+        scheme: SNAPSHOT_SCHEME,
+        query: `disk-${Date.now()}`,
+    });
+    snapshotDocuments.set(diskUri.toString(), disk);
+    try {
+        for (;;) {
+            const choice = await vscode.window.showWarningMessage(
+                `AI Quick Fix: ${label} changed ${file} on disk, but the editor has unsaved changes.`,
+                "Compare",
+                "Reload from Disk",
+                "Keep Editor",
+            );
+            if (choice === "Compare") {
+                await vscode.commands.executeCommand(
+                    "vscode.diff",
+                    diskUri,
+                    document.uri,
+                    `${file} (disk ↔ unsaved editor)`,
+                    { preview: true },
+                );
+                continue;
+            }
+            if (choice === "Reload from Disk") {
+                await vscode.window.showTextDocument(document);
+                await vscode.commands.executeCommand(
+                    "workbench.action.files.revert",
+                    document.uri,
+                );
+            }
+            return;
+        }
+    } finally {
+        snapshotDocuments.delete(diskUri.toString());
+    }
+}
+
+function isPathInside(root: string, fsPath: string): boolean {
+    const relative = path.relative(root, fsPath);
+    return (
+        !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    );
+}
+
+async function applyCliPatch(
+    label: string,
+    route: CliRoute,
+    root: string,
+    output: string,
+    attempt: FixAttemptInput,
+    secrets: RedactedSecrets,
+): Promise<void> {
+    const diff = extractUnifiedDiff(restoreRedactedText(output, secrets));
+    const folderSections = getFolderSections(
+        vscode.workspace.getWorkspaceFolder(attempt.args.uri),
+    );
+    const fail = async (message: string): Promise<Error> => {
+        appendOutputBox(`${label} Patch Failed`, [
+            ...folderSections,
+            { heading: "Route", content: route.display },
+            { heading: "Error", content: message },
+            {
+                heading: "Raw Diff",
+                content:
+                    truncateForBox(diff ?? output, MAX_BOX_CONTENT_CHARS) ||
+                    "(command returned no output)",
+            },
+        ]);
+        await recordFixAttempt(attempt, "failed", message);
+        return new Error(`${label} failed: ${message}`);
+    };
+
+    if (!diff) {
+        throw await fail("no unified diff found in the CLI output.");
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    let patches: FilePatch[];
+    try {
+        patches = parseUnifiedDiff(diff);
+        if (patches.length === 0) {
+            throw new Error("the diff contains no file changes.");
+        }
+        for (const patch of patches) {
+            await addPatchToEdit(edit, root, patch);
+        }
+    } catch (err) {
+        throw await fail(err instanceof Error ? err.message : String(err));
+    }
+
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        throw await fail("VS Code rejected the workspace edit.");
+    }
+
+    const summary = `Applied patch to ${patches.length} file(s).`;
+    const sections = [
+        ...folderSections,
+        { heading: "Route", content: route.display },
+        { heading: "Result", content: summary },
+        {
+            heading: "Changed Files",
+            content: patches
+                .map((patch) =>
+                    !patch.oldPath
+                        ? `created  ${patch.newPath}`
+                        : !patch.newPath
+                          ? `deleted  ${patch.oldPath}`
+                          : `modified ${patch.newPath}`,
+                )
+                .join("\n"),
+        },
+    ];
+    if (getCliSettings(attempt.args.uri).outputMode === "verbose") {
+        sections.push({
+            heading: "Diff",
+            content: truncateForBox(diff, MAX_BOX_CONTENT_CHARS),
+        });
+    }
+    if (attempt.usage && hasCliUsage(attempt.usage)) {
+        sections.push({
+            heading: "Usage",
+            content: formatCliUsage(attempt.usage),
+        });
+    }
+    appendOutputBox(`${label} Quick Fix`, sections);
+    await recordFixAttempt(attempt, "success", summary);
+}
+
+async function addPatchToEdit(
+    edit: vscode.WorkspaceEdit,
+    root: string,
+    patch: FilePatch,
+): Promise<void> {
+    const target = patch.newPath ?? patch.oldPath;
+    if (!target) {
+        throw new Error("diff entry has no file path.");
+    }
+    if (patch.oldPath && patch.newPath && patch.oldPath !== patch.newPath) {
+        throw new Error(
+            `renames are not supported (${patch.oldPath} -> ${patch.newPath}).`,
+        );
+    }
+
+    const fsPath = path.resolve(root, target);
+    if (!isPathInside(root, fsPath)) {
+        throw new Error(`${target} is outside the workspace folder.`);
+    }
+    const uri = vscode.Uri.file(fsPath);
+
+    if (!patch.oldPath) {
+        edit.createFile(uri, { overwrite: false });
+        edit.insert(
+            uri,
+            new vscode.Position(0, 0),
+            `${patch.hunks.flatMap((hunk) => hunk.newLines).join("\n")}\n`,
+        );
+        return;
+    }
+
+    let document: vscode.TextDocument;
+    try {
+        document = await vscode.workspace.openTextDocument(uri);
+    } catch {
+        throw new Error(`${target} does not exist.`);
+    }
+
+    const lines: string[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        lines.push(document.lineAt(line).text);
+    }
+    if (!patch.newPath) {
+        if (!coversWholeFile(lines, patch.hunks)) {
+            throw new Error(
+                `deletion of ${target} does not match its current contents.`,
+            );
+        }
+        edit.deleteFile(uri);
+        return;
+    }
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const lastLine = document.lineAt(document.lineCount - 1);
+    let from = 0;
+
+    for (const hunk of patch.hunks) {
+        const start = locateHunk(lines, hunk, from);
+        if (start < 0) {
+            throw new Error(
+                `hunk ${hunk.header} does not apply to the current contents of ${target}.`,
+            );
+        }
+        const end = start + hunk.oldLines.length;
+        if (end < document.lineCount) {
+            edit.replace(
+                uri,
+                new vscode.Range(start, 0, end, 0),
+                hunk.newLines.map((line) => `${line}${eol}`).join(""),
+            );
+        } else if (start < document.lineCount) {
+            edit.replace(
+                uri,
+                new vscode.Range(
+                    start,
+                    0,
+                    lastLine.range.end.line,
+                    lastLine.range.end.character,
+                ),
+                hunk.newLines.join(eol),
+            );
+        } else {
+            edit.insert(
+                uri,
+                lastLine.range.end,
+                `${eol}${hunk.newLines.join(eol)}`,
+            );
+        }
+        from = end;
+    }
+}
+
+function getFixAttempts(): FixAttemptRecord[] {
+    return (
+        extensionContextRef?.workspaceState.get<FixAttemptRecord[]>(
+            FIX_ATTEMPTS_STATE_KEY,
+            [],
+        ) ?? []
+    );
+}
+
+async function recordFixAttempt(
+    attempt: FixAttemptInput,
+    status: FixAttemptStatus,
+    summary: string,
+): Promise<void> {
+    if (!extensionContextRef) {
+        return;
+    }
+
+    const { args } = attempt;
+    const timestamp = Date.now();
+    attempt.id = `${timestamp}-${Math.floor(Math.random() * 1_000_000)}`;
+    const record: FixAttemptRecord = {
+        id: attempt.id,
+        fixerId: attempt.fixerId,
+        label: getFixerLabel(attempt.fixerId, args.uri),
+        uri: args.uri.toString(),
+        file: vscode.workspace.asRelativePath(args.uri, false),
+        range: [
+            args.range.start.line,
+            args.range.start.character,
+            args.range.end.line,
+            args.range.end.character,
+        ],
+        diagnosticMessages: resolveDiagnosticMessages(args),
+        diagnostics: args.diagnostics,
+        route: attempt.route,
+        usage: attempt.usage,
+        durationMs: timestamp - attempt.startedAt,
+        status,
+        summary,
+        prompt: attempt.prompt,
+        timestamp,
+    };
+
+    await extensionContextRef.workspaceState.update(
+        FIX_ATTEMPTS_STATE_KEY,
+        [record, ...getFixAttempts()].slice(0, MAX_FIX_ATTEMPTS),
+    );
+    fixAttemptsChanged.fire();
+}
+
+async function recordFixVerification(
+    attempt: FixAttemptInput,
+    verification: FixVerification,
+): Promise<void> {
+    if (
+        !extensionContextRef ||
+        !attempt.id ||
+        (verification.stillPresent.length === 0 &&
+            verification.introduced.length === 0)
+    ) {
+        return;
+    }
+
+    const attempts = getFixAttempts();
+    const index = attempts.findIndex((record) => record.id === attempt.id);
+    if (index < 0 || attempts[index].status !== "success") {
+        return;
+    }
+    attempts[index] = {
+        ...attempts[index],
+        status: "unverified",
+        summary: `${attempts[index].summary}\nVerification: ${formatFixVerification(verification)}`,
+    };
+    await extensionContextRef.workspaceState.update(
+        FIX_ATTEMPTS_STATE_KEY,
+        attempts,
+    );
+    fixAttemptsChanged.fire();
+}
+
+function formatDuration(durationMs: number): string {
+    if (durationMs < 1000) {
+        return `${durationMs}ms`;
+    }
+    if (durationMs < 59_950) {
+        return `${(durationMs / 1000).toFixed(1)}s`;
+    }
+    const seconds = Math.round(durationMs / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+async function buildFilePrompt(
+    uri: vscode.Uri,
+    diagnostics: readonly vscode.Diagnostic[],
+    fixerId: FixerId,
+): Promise<PromptSpec> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const entries = diagnostics.map((diagnostic) => ({
+        line: clampLineNumber(document, diagnostic.range.start.line) + 1,
+        message: formatDiagnosticRecord(toDiagnosticRecord(diagnostic)),
+    }));
+    const lines = [...new Set(entries.map((entry) => entry.line))].sort(
+        (a, b) => a - b,
+    );
+    const diagnosticText = entries
+        .map((entry) => `- Line ${entry.line}: ${entry.message}`)
+        .join("\n");
+    const code = lines
+        .map(
+            (line) =>
+                `${line}: ${document.lineAt(line - 1).text || "(empty line)"}`,
+        )
+        .join("\n");
+
+    const line = lines[0] ?? 1;
+    const secrets: RedactedSecrets = new Map();
+    const values = {
+        file: getPromptFilePath(uri),
+        line: String(line),
+        code,
+        diagnostics: diagnosticText,
+        languageId: document.languageId,
+        source: formatDiagnosticSources(diagnostics),
+    };
+    const template = await resolvePromptTemplate(fixerId, document, "prompt");
+    if (template) {
+        return {
+            line,
+            secrets,
+            values,
+            prompt: redactPrompt(
+                renderPromptTemplate(template, values),
+                uri,
+                secrets,
+            ),
+        };
+    }
+
+    return {
+        line,
+        secrets,
+        values,
+        prompt: redactPrompt(
+            `Diagnostics:\n${diagnosticText}\nCode:\n${code}`,
+            uri,
+            secrets,
+        ),
+    };
+}
+
+function redactPrompt(
+    prompt: string,
+    scope: vscode.ConfigurationScope,
+    secrets: RedactedSecrets,
+): string {
+    const settings = getRedactionSettings(scope);
+    if (!settings.enabled) {
+        return prompt;
+    }
+
+    const { text, masked } = redactText(
+        prompt,
+        [...REDACTION_PATTERNS, ...settings.patterns],
+        secrets,
+    );
+
+    if (masked > 0 && getCliSettings(scope).outputMode === "verbose") {
+        OUTPUT.appendLine(
+            `[redact] Masked ${masked} value(s) in the prompt before sending it.`,
+        );
+    }
+    return text;
+}
+
+async function restoreRedactedFiles(
+    root: string,
+    paths: string[],
+    secrets: RedactedSecrets,
+    getBefore: (fsPath: string) => Buffer | undefined,
+): Promise<string[]> {
+    if (secrets.size === 0) {
+        return [];
+    }
+
+    const restored: string[] = [];
+    for (const fsPath of new Set(paths)) {
+        if (!isPathInside(root, fsPath)) {
+            continue;
+        }
+        const content = decodeUtf8(await readSnapshotFile(fsPath));
+        if (!content) {
+            continue;
+        }
+        const before = getBefore(fsPath);
+        const unmasked = restoreRedactedLines(
+            content,
+            before ? decodeUtf8(before) : undefined,
+            secrets,
         );
+        if (unmasked !== content) {
+            await fs.writeFile(fsPath, unmasked, "utf8");
+            restored.push(fsPath);
+        }
     }
+    return restored;
+}
 
-    const failures: string[] = [];
-    if (editorAvailable) {
-        const sessionId = makeClaudeSessionId();
+function decodeUtf8(content: Buffer | undefined): string | undefined {
+    if (!content) {
+        return undefined;
+    }
+    const text = content.toString("utf8");
+    return Buffer.from(text, "utf8").equals(content) ? text : undefined;
+}
+
+async function listChangedOpenDocuments(
+    before: Map<string, number>,
+): Promise<string[]> {
+    const changed: string[] = [];
+    for (const [fsPath, mtimeMs] of before) {
         try {
-            await vscode.commands.executeCommand(
-                CLAUDE_EDITOR_COMMAND,
-                sessionId,
-                prompt,
-            );
-            OUTPUT.appendLine(
-                "[claude] Opened Claude chat and submitted prompt.",
-            );
-            return;
-        } catch (error) {
-            const message =
-                error instanceof Error ? error.message : String(error);
-            failures.push(`editor flow failed: ${message}`);
+            if ((await fs.stat(fsPath)).mtimeMs !== mtimeMs) {
+                changed.push(fsPath);
+            }
+        } catch {
+            continue;
         }
     }
+    return changed;
+}
 
-    if (terminalAvailable) {
+function getRedactionSettings(
+    scope?: vscode.ConfigurationScope,
+): RedactionSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    const sources = parseStringArray(config.get<unknown>("redaction-patterns"));
+    const key = JSON.stringify(sources);
+    let patterns = redactionPatternCache.get(key);
+    if (!patterns) {
+        patterns = compileRedactionPatterns(sources);
+        redactionPatternCache.set(key, patterns);
+    }
+    return {
+        enabled: parseBoolean(config.get<unknown>("redaction"), true),
+        patterns,
+    };
+}
+
+function compileRedactionPatterns(sources: string[]): RegExp[] {
+    const patterns: RegExp[] = [];
+    for (const source of sources) {
         try {
-            await vscode.commands.executeCommand(
-                CLAUDE_TERMINAL_COMMAND,
-                prompt,
-                ["-p"],
-                "beside",
-            );
+            patterns.push(new RegExp(source, "g"));
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : String(err);
             OUTPUT.appendLine(
-                "[claude] Submitted prompt through Claude terminal fallback.",
+                `[redact] Ignoring invalid redaction pattern ${source}: ${msg}`,
             );
-            return;
-        } catch (error) {
-            const message =
-                error instanceof Error ? error.message : String(error);
-            failures.push(`terminal fallback failed: ${message}`);
         }
     }
+    return patterns;
+}
 
-    throw new Error(
-        `Claude quick fix failed. ${failures.join(" | ") || "No executable route was available."}`,
+async function buildPrompt(
+    args: RunFixerArgs,
+    fixerId: FixerId,
+): Promise<PromptSpec> {
+    const document = await vscode.workspace.openTextDocument(args.uri);
+    const line = clampLineNumber(document, args.range.start.line) + 1;
+    const code = await buildCodeContext(
+        document,
+        line - 1,
+        getContextSettings(args.uri),
     );
+    const diagnosticText = resolveDiagnosticLines(args)
+        .map((message) => `- ${message}`)
+        .join("\n");
+
+    const secrets: RedactedSecrets = new Map();
+    const values = {
+        file: getPromptFilePath(args.uri),
+        line: String(line),
+        code: code.text,
+        diagnostics: diagnosticText,
+        languageId: document.languageId,
+        source: formatDiagnosticSources(
+            vscode.languages
+                .getDiagnostics(args.uri)
+                .filter(
+                    (diagnostic) =>
+                        diagnostic.range.start.line <= line - 1 &&
+                        line - 1 <= diagnostic.range.end.line,
+                ),
+        ),
+    };
+    const template = await resolvePromptTemplate(fixerId, document, "prompt");
+    if (template) {
+        return {
+            line,
+            secrets,
+            values,
+            prompt: redactPrompt(
+                renderPromptTemplate(template, values),
+                args.uri,
+                secrets,
+            ),
+        };
+    }
+
+    return {
+        line,
+        secrets,
+        values,
+        prompt: redactPrompt(
+            `Diagnostics:\n${diagnosticText}\n` +
+                `Line: ${line}\n${code.heading}:${code.inline ? " " : "\n"}${code.text}`,
+            args.uri,
+            secrets,
+        ),
+    };
 }
 
-async function runCliFix(
-    args: RunFixerArgs,
-    prompt: string,
-    fixerId: CliFixerId,
-): Promise<void> {
-    const cliSettings = getCliSettings();
-    const baseRoute = await getCliRoute(fixerId);
-    if (!baseRoute) {
-        throw new Error(
-            `${FIXERS[fixerId].label} is enabled, but no working CLI route was found.`,
-        );
+function formatDiagnosticSources(
+    diagnostics: readonly vscode.Diagnostic[],
+): string {
+    const sources = new Set<string>();
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.source) {
+            sources.add(diagnostic.source);
+        }
     }
+    return [...sources].join(", ") || "unknown";
+}
 
-    const cwd = getCommandWorkingDirectory(args.uri);
-    const cliPrompt = buildCliPrompt(args.uri, prompt);
-    const routes = orderRoutesWithPreferred(
-        getCliRouteCandidates(fixerId),
-        baseRoute.id,
+async function resolvePromptTemplate(
+    fixerId: FixerId,
+    document: vscode.TextDocument,
+    kind: "prompt" | "cliPrompt",
+): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", document);
+    const templates = [
+        ...(await readWorkspacePromptTemplates(document.uri)),
+        ...parsePromptTemplates(config.get<unknown>("prompt-templates")),
+    ];
+    const fixerNames = [fixerId, getFixerLabel(fixerId, document)].map((name) =>
+        name.toLowerCase(),
     );
-    const failures: string[] = [];
-    let sawInvocationFailureOnly = true;
 
-    for (const route of routes) {
-        if (route.id !== baseRoute.id) {
-            const probeOk = await probeRoute(route, cwd);
-            if (!probeOk) {
-                continue;
-            }
+    let best: string | undefined;
+    let bestScore = -1;
+    for (const template of templates) {
+        const text = template[kind];
+        if (!text) {
+            continue;
         }
 
-        const result = await runCommand(
-            route.buildRun(cliPrompt),
-            cwd,
-            CLI_RUN_TIMEOUT_MS,
-        );
-        if (isReadOnlySandboxNotice(result)) {
-            sawInvocationFailureOnly = false;
-            failures.push(
-                `${route.display}: reported read-only sandbox, so no file edits were saved.`,
-            );
+        const fixer = template.fixer?.toLowerCase();
+        const language = template.language;
+        const fixerMatches =
+            !fixer || fixer === "*" || fixerNames.includes(fixer);
+        const languageMatches =
+            !language || language === "*" || language === document.languageId;
+        if (!fixerMatches || !languageMatches) {
             continue;
         }
 
-        if (isProcessSuccess(result)) {
-            await setCachedCliRoute(fixerId, route);
-            if (cliSettings.outputMode === "verbose") {
-                appendOutputBox(`${FIXERS[fixerId].label} Quick Fix`, [
-                    { heading: "Route", content: route.display },
-                    { heading: "Prompt", content: cliPrompt },
-                    {
-                        heading: "CLI Output",
-                        content:
-                            getProcessOutputText(result) ||
-                            "(command returned no output)",
-                    },
-                ]);
-            } else {
-                appendOutputBox(`${FIXERS[fixerId].label} Quick Fix`, [
-                    { heading: "Route", content: route.display },
-                    {
-                        heading: "Result",
-                        content: getMinimalProcessSummary(result),
-                    },
-                ]);
-            }
-            return;
+        const score =
+            (fixer && fixer !== "*" ? 2 : 0) +
+            (language && language !== "*" ? 1 : 0);
+        if (score > bestScore) {
+            best = text;
+            bestScore = score;
         }
+    }
+    return best;
+}
 
-        failures.push(`${route.display}: ${formatProcessFailure(result)}`);
-        if (!isInvocationFailure(result)) {
-            sawInvocationFailureOnly = false;
-            break;
-        }
+async function readWorkspacePromptTemplates(
+    uri: vscode.Uri,
+): Promise<PromptTemplate[]> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder || !vscode.workspace.isTrusted) {
+        return [];
     }
 
-    if (sawInvocationFailureOnly) {
-        await setCachedCliRoute(fixerId, null);
+    try {
+        const raw = await fs.readFile(
+            path.join(workspaceFolder.uri.fsPath, PROMPT_TEMPLATE_FILE),
+            "utf8",
+        );
+        return parsePromptTemplates(JSON.parse(raw));
+    } catch {
+        return [];
     }
+}
 
-    const summary =
-        failures.length > 0
-            ? failures[0]
-            : "no executable command route was accepted.";
-    if (cliSettings.outputMode === "verbose") {
-        appendOutputBox(`${FIXERS[fixerId].label} Quick Fix Failed`, [
-            { heading: "Prompt", content: cliPrompt },
-            {
-                heading: "Route Failures",
-                content: summarizeFailures(failures),
-            },
-        ]);
-    } else {
-        appendOutputBox(`${FIXERS[fixerId].label} Quick Fix Failed`, [
-            {
-                heading: "Route Failures",
-                content: summarizeFailures(failures),
-            },
-        ]);
+function parsePromptTemplates(value: unknown): PromptTemplate[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry !== "object") {
+            continue;
+        }
+        const raw = entry as Record<string, unknown>;
+        const template: PromptTemplate = {
+            fixer: typeof raw.fixer === "string" ? raw.fixer.trim() : undefined,
+            language:
+                typeof raw.language === "string"
+                    ? raw.language.trim()
+                    : undefined,
+            prompt: typeof raw.prompt === "string" ? raw.prompt : undefined,
+            cliPrompt:
+                typeof raw.cliPrompt === "string" ? raw.cliPrompt : undefined,
+        };
+        if (template.prompt || template.cliPrompt) {
+            templates.push(template);
+        }
     }
-    throw new Error(`${FIXERS[fixerId].label} failed: ${summary}`);
+    return templates;
 }
 
-async function buildPrompt(args: RunFixerArgs): Promise<PromptSpec> {
-    const document = await vscode.workspace.openTextDocument(args.uri);
-    const line = clampLineNumber(document, args.range.start.line) + 1;
-    const locationLine = document.lineAt(line - 1).text || "(empty line)";
-    const diagnostics = resolveDiagnosticMessages(args);
+function renderPromptTemplate(
+    template: string,
+    values: Record<string, string>,
+): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+        Object.prototype.hasOwnProperty.call(values, key)
+            ? values[key]
+            : placeholder,
+    );
+}
+
+function getPromptFilePath(uri: vscode.Uri): string {
+    return vscode.workspace.asRelativePath(uri, false) || uri.fsPath;
+}
+
+async function buildCodeContext(
+    document: vscode.TextDocument,
+    targetLine: number,
+    settings: ContextSettings,
+): Promise<CodeContext> {
+    if (settings.mode === "line") {
+        return {
+            heading: "Code",
+            text: document.lineAt(targetLine).text || "(empty line)",
+            inline: true,
+        };
+    }
+
+    const [start, end] = await resolveContextRange(
+        document,
+        targetLine,
+        settings,
+    );
+    const [first, last] = fitContextLines(
+        document,
+        start,
+        end,
+        targetLine,
+        settings.maxChars,
+    );
+    const width = String(last + 1).length;
+    const lines: string[] = [];
+    for (let index = first; index <= last; index++) {
+        const marker = index === targetLine ? ">" : " ";
+        lines.push(
+            `${marker} ${String(index + 1).padStart(width)}: ${document.lineAt(index).text}`,
+        );
+    }
     return {
-        line,
-        prompt:
-            `Diagnostics:\n${diagnostics.map((message) => `- ${message}`).join("\n")}\n` +
-            `Line: ${line}\nCode: ${locationLine}`,
+        heading: `Code (lines ${first + 1}-${last + 1})`,
+        text: lines.join("\n"),
+        inline: false,
+    };
+}
+
+async function resolveContextRange(
+    document: vscode.TextDocument,
+    targetLine: number,
+    settings: ContextSettings,
+): Promise<[number, number]> {
+    const lastLine = Math.max(0, document.lineCount - 1);
+    if (settings.mode === "file") {
+        return [0, lastLine];
+    }
+
+    if (settings.mode === "symbol") {
+        const symbolRange = await findEnclosingSymbolRange(
+            document,
+            targetLine,
+        );
+        if (symbolRange) {
+            return [symbolRange.start.line, symbolRange.end.line];
+        }
+    }
+
+    return [
+        Math.max(0, targetLine - settings.windowLines),
+        Math.min(lastLine, targetLine + settings.windowLines),
+    ];
+}
+
+async function findEnclosingSymbolRange(
+    document: vscode.TextDocument,
+    targetLine: number,
+): Promise<vscode.Range | undefined> {
+    let symbols:
+        Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<
+            Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+        >("vscode.executeDocumentSymbolProvider", document.uri);
+    } catch {
+        return undefined;
+    }
+
+    let best: vscode.Range | undefined;
+    const visit = (
+        items: Array<vscode.DocumentSymbol | vscode.SymbolInformation>,
+    ): void => {
+        for (const item of items) {
+            const range = "location" in item ? item.location.range : item.range;
+            if (range.start.line > targetLine || range.end.line < targetLine) {
+                continue;
+            }
+            if (
+                ENCLOSING_SYMBOL_KINDS.has(item.kind) &&
+                (!best ||
+                    range.end.line - range.start.line <
+                        best.end.line - best.start.line)
+            ) {
+                best = range;
+            }
+            if ("children" in item) {
+                visit(item.children);
+            }
+        }
     };
+    visit(symbols ?? []);
+    return best;
+}
+
+function fitContextLines(
+    document: vscode.TextDocument,
+    start: number,
+    end: number,
+    targetLine: number,
+    maxChars: number,
+): [number, number] {
+    const cost = (index: number): number =>
+        document.lineAt(index).text.length + 10;
+    let first = targetLine;
+    let last = targetLine;
+    let used = cost(targetLine);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        if (first > start && used + cost(first - 1) <= maxChars) {
+            first--;
+            used += cost(first);
+            grew = true;
+        }
+        if (last < end && used + cost(last + 1) <= maxChars) {
+            last++;
+            used += cost(last);
+            grew = true;
+        }
+    }
+    return [first, last];
+}
+
+function resolveDiagnosticLines(args: RunFixerArgs): string[] {
+    const records = (args.diagnostics ?? []).filter(
+        (record) => record && typeof record.message === "string",
+    );
+    if (records.length > 0) {
+        return [...new Set(records.map(formatDiagnosticRecord))];
+    }
+    return resolveDiagnosticMessages(args);
 }
 
 function resolveDiagnosticMessages(args: RunFixerArgs): string[] {
@@ -476,16 +3982,15 @@ function makeClaudeSessionId(): string {
 }
 
 async function isCommandAvailable(command: string): Promise<boolean> {
-    if (commandAvailabilityCache.has(command)) {
-        return true;
+    const cached = commandAvailabilityCache.get(command);
+    if (cached !== undefined) {
+        return cached;
     }
 
     const available = (await vscode.commands.getCommands(true)).includes(
         command,
     );
-    if (available) {
-        commandAvailabilityCache.set(command, true);
-    }
+    commandAvailabilityCache.set(command, available);
     return available;
 }
 
@@ -497,31 +4002,218 @@ async function assertCommandAvailable(
         return;
     }
 
-    throw new Error(`${missingMessage} Missing command: ${command}`);
+    throw new Error(`${missingMessage} Missing command: ${command}`);
+}
+
+async function buildCliPrompt(
+    uri: vscode.Uri,
+    promptSpec: PromptSpec,
+    fixerId: CliFixerId,
+): Promise<string> {
+    const basePrompt = promptSpec.prompt;
+    const filePath = getPromptFilePath(uri);
+    if (usesPatchMode(getCliSettings(uri), fixerId)) {
+        return `File: ${filePath}\n${basePrompt}\nDo not edit, create, or delete any files.\nOutput rules: reply with only a unified diff of the minimal quick fix (--- a/<path>, +++ b/<path>, @@ hunks with context lines) against the current file contents, with paths relative to the workspace root, inside a single \`\`\`diff block. Do not add explanations.`;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const template = await resolvePromptTemplate(
+        fixerId,
+        document,
+        "cliPrompt",
+    );
+    if (template) {
+        return redactPrompt(
+            renderPromptTemplate(template, {
+                ...promptSpec.values,
+                file: filePath,
+                prompt: basePrompt,
+            }),
+            uri,
+            promptSpec.secrets,
+        );
+    }
+
+    return `File: ${filePath}\n${basePrompt}\nApply the minimal quick fix by editing workspace files directly.\nOutput rules: do not print file contents, diffs, markdown, or explanations.\nReturn exactly one short line in this format: DONE: <very short summary>.`;
+}
+
+function parseBoolean(value: unknown, fallback: boolean): boolean {
+    return typeof value === "boolean" ? value : fallback;
+}
+
+function getContextSettings(
+    scope?: vscode.ConfigurationScope,
+): ContextSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    const mode = config.get<unknown>("context-mode");
+    return {
+        mode:
+            mode === "window" || mode === "symbol" || mode === "file"
+                ? mode
+                : "line",
+        windowLines: parseNonNegativeInteger(
+            config.get<unknown>("context-window-lines"),
+            DEFAULT_CONTEXT_WINDOW_LINES,
+        ),
+        maxChars: parseNonNegativeInteger(
+            config.get<unknown>("context-max-chars"),
+            DEFAULT_CONTEXT_MAX_CHARS,
+        ),
+    };
+}
+
+function getDiagnosticFilter(
+    scope?: vscode.ConfigurationScope,
+): DiagnosticFilter {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    const lowerCase = (key: string): string[] =>
+        parseStringArray(config.get<unknown>(key))
+            .map((value) => value.trim().toLowerCase())
+            .filter((value) => value.length > 0);
+    const severities = lowerCase("diagnostic-severities").filter((severity) =>
+        DIAGNOSTIC_SEVERITY_NAMES.includes(severity),
+    );
+    return {
+        severities: new Set(
+            (severities.length > 0
+                ? severities
+                : DIAGNOSTIC_SEVERITY_NAMES
+            ).map((severity) => parseDiagnosticSeverity(severity)),
+        ),
+        includeSources: lowerCase("diagnostic-include-sources"),
+        excludeSources: lowerCase("diagnostic-exclude-sources"),
+        includeCodes: lowerCase("diagnostic-include-codes"),
+        excludeCodes: lowerCase("diagnostic-exclude-codes"),
+    };
+}
+
+function getBatchConcurrency(): number {
+    return Math.max(
+        1,
+        parseNonNegativeInteger(
+            vscode.workspace
+                .getConfiguration("ai-quick-fix")
+                .get<unknown>("batch-concurrency"),
+            1,
+        ),
+    );
+}
+
+function getBatchSettings(scope?: vscode.ConfigurationScope): BatchSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    return {
+        granularity:
+            config.get<unknown>("batch-granularity") === "diagnostic"
+                ? "diagnostic"
+                : "file",
+        minSeverity: parseDiagnosticSeverity(
+            config.get<unknown>("batch-severity"),
+        ),
+        verifyFixes: getCliSettings(scope).verifyFixes,
+    };
 }
 
-function buildCliPrompt(uri: vscode.Uri, basePrompt: string): string {
-    const filePath = vscode.workspace.asRelativePath(uri, false) || uri.fsPath;
-    return `File: ${filePath}\n${basePrompt}\nApply the minimal quick fix by editing workspace files directly.\nOutput rules: do not print file contents, diffs, markdown, or explanations.\nReturn exactly one short line in this format: DONE: <very short summary>.`;
+function usesPatchMode(cliSettings: CliSettings, fixerId: CliFixerId): boolean {
+    return cliSettings.patchMode && !isCustomCliFixerId(fixerId);
 }
 
-function parseBoolean(value: unknown, fallback: boolean): boolean {
-    return typeof value === "boolean" ? value : fallback;
+function usesWorkspaceSnapshots(
+    cliSettings: CliSettings,
+    fixerId: CliFixerId,
+): boolean {
+    return (
+        !usesPatchMode(cliSettings, fixerId) &&
+        (cliSettings.reviewChanges || cliSettings.undoHistorySize > 0)
+    );
 }
 
-function getCliSettings(): CliSettings {
-    const config = vscode.workspace.getConfiguration("ai-quick-fix");
+function parseDiagnosticSeverity(value: unknown): vscode.DiagnosticSeverity {
+    switch (value) {
+        case "warning":
+            return vscode.DiagnosticSeverity.Warning;
+        case "information":
+            return vscode.DiagnosticSeverity.Information;
+        case "hint":
+            return vscode.DiagnosticSeverity.Hint;
+        default:
+            return vscode.DiagnosticSeverity.Error;
+    }
+}
+
+function getCliSettings(scope?: vscode.ConfigurationScope): CliSettings {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
     return {
         enableWslRoutes: parseBoolean(
             config.get<unknown>("enable-wsl-routes"),
             true,
         ),
         outputMode: parseCliOutputMode(config.get<unknown>("cli-output-mode")),
+        probeTimeoutMs: parseTimeoutSeconds(
+            config.get<unknown>("cli-probe-timeout-seconds"),
+            DEFAULT_CLI_PROBE_TIMEOUT_MS,
+        ),
+        runTimeoutMs: parseTimeoutSeconds(
+            config.get<unknown>("cli-run-timeout-seconds"),
+            DEFAULT_CLI_RUN_TIMEOUT_MS,
+        ),
+        patchMode: parseBoolean(config.get<unknown>("cli-patch-mode"), false),
+        unsavedChanges: parseUnsavedChangesPolicy(
+            config.get<unknown>("cli-unsaved-changes"),
+        ),
+        queueScope:
+            config.get<unknown>("cli-queue-scope") === "folder"
+                ? "folder"
+                : "file",
+        confirmFirstRun: parseBoolean(
+            config.get<unknown>("cli-confirm-first-run"),
+            false,
+        ),
+        codexForbiddenFlags: parseStringArray(
+            config.get<unknown>("codex-cli-forbidden-flags"),
+        )
+            .map((entry) => entry.split(/[\s=]+/).filter(Boolean))
+            .filter((tokens) => tokens.length > 0),
+        routeRevalidateMs:
+            parseNonNegativeInteger(
+                config.get<unknown>("cli-route-revalidate-minutes"),
+                DEFAULT_CLI_ROUTE_REVALIDATE_MINUTES,
+            ) * 60_000,
+        reviewChanges: parseBoolean(
+            config.get<unknown>("cli-review-mode"),
+            false,
+        ),
+        undoHistorySize: parseNonNegativeInteger(
+            config.get<unknown>("undo-history-size"),
+            DEFAULT_UNDO_HISTORY_SIZE,
+        ),
+        verifyFixes: parseBoolean(config.get<unknown>("verify-fixes"), true),
+        verifyRetries: parseNonNegativeInteger(
+            config.get<unknown>("verify-retries"),
+            0,
+        ),
     };
 }
 
+function parseUnsavedChangesPolicy(value: unknown): UnsavedChangesPolicy {
+    return value === "save" || value === "refuse" || value === "abort"
+        ? value
+        : "ask";
+}
+
+function parseNonNegativeInteger(value: unknown, fallback: number): number {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0
+        ? Math.floor(value)
+        : fallback;
+}
+
+function parseTimeoutSeconds(value: unknown, fallbackMs: number): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0
+        ? Math.round(value * 1000)
+        : fallbackMs;
+}
+
 function parseCliOutputMode(value: unknown): CliOutputMode {
-    return value === "verbose" ? "verbose" : "minimal";
+    return value === "verbose" || value === "streaming" ? value : "minimal";
 }
 
 function getDiscoveryPreferredRouteId(
@@ -536,7 +4228,10 @@ function getDiscoveryPreferredRouteId(
         return routeId;
     }
 
-    if (routeId.includes(":workspace-write")) {
+    if (
+        routeId.includes(":workspace-write") ||
+        routeId.includes(":read-only")
+    ) {
         return routeId;
     }
 
@@ -548,7 +4243,7 @@ function resolveFixerId(args: RunFixerArgs | undefined): FixerId | undefined {
         return undefined;
     }
 
-    if (isFixerId(args.fixerId)) {
+    if (isFixerId(args.fixerId, args.uri)) {
         return args.fixerId;
     }
 
@@ -563,96 +4258,618 @@ function resolveFixerId(args: RunFixerArgs | undefined): FixerId | undefined {
             case "claude cli":
                 return "claude-cli";
         }
+
+        const label = args.fixer.trim().toLowerCase();
+        if (label === getFixerLabel("http", args.uri).toLowerCase()) {
+            return "http";
+        }
+        return getCustomCliFixers(args.uri).find(
+            (custom) => custom.label.toLowerCase() === label,
+        )?.id;
     }
 
     return undefined;
 }
 
-function isFixerId(value: unknown): value is FixerId {
+function isFixerId(
+    value: unknown,
+    scope?: vscode.ConfigurationScope,
+): value is FixerId {
     return (
         value === "codex" ||
         value === "claude" ||
         value === "codex-cli" ||
-        value === "claude-cli"
+        value === "claude-cli" ||
+        value === "http" ||
+        (isCustomCliFixerId(value) && !!getCustomCliFixer(value, scope))
     );
 }
 
-async function warmCliRouteCache(): Promise<void> {
-    const config = vscode.workspace.getConfiguration("ai-quick-fix");
-    const codexCli = parseBoolean(config.get<unknown>("codex-cli"), false);
-    const claudeCli = parseBoolean(config.get<unknown>("claude-cli"), false);
+function isCliFixerId(fixerId: FixerId): fixerId is CliFixerId {
+    return (
+        fixerId === "codex-cli" ||
+        fixerId === "claude-cli" ||
+        isCustomCliFixerId(fixerId)
+    );
+}
+
+function isCustomCliFixerId(value: unknown): value is CustomCliFixerId {
+    return (
+        typeof value === "string" &&
+        value.startsWith(CUSTOM_FIXER_ID_PREFIX) &&
+        value.length > CUSTOM_FIXER_ID_PREFIX.length
+    );
+}
+
+function getCustomCliFixers(
+    scope?: vscode.ConfigurationScope,
+): CustomCliFixerSpec[] {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", scope);
+    return parseCustomCliFixers(config.get<unknown>("custom-cli-fixers"));
+}
+
+function getCustomCliFixer(
+    fixerId: CustomCliFixerId,
+    scope?: vscode.ConfigurationScope,
+): CustomCliFixerSpec | undefined {
+    return getCustomCliFixers(scope).find((custom) => custom.id === fixerId);
+}
+
+function parseCustomCliFixers(value: unknown): CustomCliFixerSpec[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const fixers: CustomCliFixerSpec[] = [];
+    const seen = new Set<string>();
+    for (const entry of value) {
+        const fixer = parseCustomCliFixer(entry);
+        if (fixer && !seen.has(fixer.id)) {
+            seen.add(fixer.id);
+            fixers.push(fixer);
+        }
+    }
+    return fixers;
+}
+
+function parseCustomCliFixer(entry: unknown): CustomCliFixerSpec | undefined {
+    if (!entry || typeof entry !== "object") {
+        return undefined;
+    }
 
-    const tasks: Promise<CliRoute | null>[] = [];
-    if (codexCli) {
-        tasks.push(getCliRoute("codex-cli"));
+    const raw = entry as Record<string, unknown>;
+    if (!parseBoolean(raw.enabled, true)) {
+        return undefined;
+    }
+
+    const label = typeof raw.label === "string" ? raw.label.trim() : "";
+    const binaries = parseStringArray(raw.binaries).filter(
+        (binary) => binary.trim().length > 0,
+    );
+    const runArgs = parseStringArray(raw.runArgs);
+    if (!label || binaries.length === 0 || runArgs.length === 0) {
+        return undefined;
+    }
+
+    const idSource = typeof raw.id === "string" ? raw.id : label;
+    const slug = idSource
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    if (!slug) {
+        return undefined;
     }
-    if (claudeCli) {
-        tasks.push(getCliRoute("claude-cli"));
+
+    const wrappers = parseStringArray(raw.wrappers).filter(
+        (wrapper): wrapper is CliRouteWrapper =>
+            (CLI_ROUTE_WRAPPERS as string[]).includes(wrapper),
+    );
+
+    return {
+        id: `${CUSTOM_FIXER_ID_PREFIX}${slug}`,
+        label,
+        binaries,
+        probeArgs: Array.isArray(raw.probeArgs)
+            ? parseStringArray(raw.probeArgs)
+            : ["--help"],
+        runArgs,
+        wrappers: wrappers.length > 0 ? wrappers : [...CLI_ROUTE_WRAPPERS],
+    };
+}
+
+function parseStringArray(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+        return [];
     }
+    return value.filter((item): item is string => typeof item === "string");
+}
 
+async function warmCliRouteCache(): Promise<void> {
+    if (!vscode.workspace.isTrusted) {
+        return;
+    }
+    const tasks = getRouteFolders().flatMap((folder) =>
+        getEnabledCliFixerIds(folder).map((fixerId) =>
+            getCliRoute(fixerId, folder),
+        ),
+    );
     if (tasks.length > 0) {
         await Promise.allSettled(tasks);
     }
 }
 
+function getRouteFolders(): Array<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return folders.length > 0 ? [...folders] : [undefined];
+}
+
+function getEnabledCliFixerIds(folder?: vscode.WorkspaceFolder): CliFixerId[] {
+    const config = vscode.workspace.getConfiguration("ai-quick-fix", folder);
+    const fixerIds: CliFixerId[] = [];
+    if (parseBoolean(config.get<unknown>("codex-cli"), false)) {
+        fixerIds.push("codex-cli");
+    }
+    if (parseBoolean(config.get<unknown>("claude-cli"), false)) {
+        fixerIds.push("claude-cli");
+    }
+    for (const custom of getCustomCliFixers(folder)) {
+        fixerIds.push(custom.id);
+    }
+    return fixerIds;
+}
+
+function formatRouteScope(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string {
+    const label = getFixerLabel(fixerId, folder);
+    return folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+        ? `${label} (${folder.name})`
+        : label;
+}
+
+async function runRouteCommand(
+    action: (
+        fixerId: CliFixerId,
+        folder: vscode.WorkspaceFolder | undefined,
+    ) => Promise<void>,
+): Promise<void> {
+    if (!vscode.workspace.isTrusted) {
+        void vscode.window.showWarningMessage(
+            "AI Quick Fix: CLI fixers are disabled in Restricted Mode. Trust this workspace to probe CLI routes.",
+        );
+        return;
+    }
+
+    try {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const folder =
+            folders.length > 1
+                ? await vscode.window.showWorkspaceFolderPick({
+                      placeHolder: "Select a workspace folder",
+                  })
+                : folders[0];
+        if (folders.length > 1 && !folder) {
+            return;
+        }
+
+        const fixerIds: CliFixerId[] = [
+            "codex-cli",
+            "claude-cli",
+            ...getCustomCliFixers(folder).map((custom) => custom.id),
+        ];
+        const picked = await vscode.window.showQuickPick(
+            fixerIds.map((fixerId) => ({
+                label: getFixerLabel(fixerId, folder),
+                description: fixerId,
+                fixerId,
+            })),
+            { placeHolder: "Select a CLI fixer" },
+        );
+        if (picked) {
+            await action(picked.fixerId, folder);
+        }
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        OUTPUT.appendLine(`[error] ${msg}`);
+        void vscode.window.showErrorMessage(`AI Quick Fix failed: ${msg}`);
+    }
+}
+
+async function probeAllRoutes(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): Promise<Array<{ route: CliRoute; available: boolean }>> {
+    const routes = getCliRouteCandidates(fixerId, folder);
+    const cwd = getProbeWorkingDirectory(folder);
+    return await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `AI Quick Fix: probing ${formatRouteScope(fixerId, folder)} routes`,
+        },
+        async (progress) => {
+            const statuses: Array<{ route: CliRoute; available: boolean }> = [];
+            for (const route of routes) {
+                progress.report({
+                    message: route.display,
+                    increment: 100 / routes.length,
+                });
+                statuses.push({
+                    route,
+                    available: await probeRoute(route, cwd),
+                });
+            }
+            return statuses;
+        },
+    );
+}
+
+function getActiveRouteId(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string | undefined {
+    return (
+        getPinnedRouteId(fixerId, folder) ??
+        cliRouteCache.get(getRouteKey(fixerId, folder))?.id ??
+        getPersistedRouteId(fixerId, folder)
+    );
+}
+
+function toRouteQuickPickItem(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+    status: { route: CliRoute; available: boolean },
+): vscode.QuickPickItem & { route: CliRoute } {
+    const activeId = getActiveRouteId(fixerId, folder);
+    const pinned = getPinnedRouteId(fixerId, folder) === status.route.id;
+    const tags = [status.available ? "available" : "unavailable"];
+    if (status.route.id === activeId) {
+        tags.push(pinned ? "pinned" : "active");
+    }
+    return {
+        label: `${status.available ? "$(check)" : "$(close)"} ${status.route.display}`,
+        description: tags.join(", "),
+        detail: status.route.id,
+        route: status.route,
+    };
+}
+
+async function showCliRoutesForFixer(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): Promise<void> {
+    const statuses = await probeAllRoutes(fixerId, folder);
+    const activeId = getActiveRouteId(fixerId, folder);
+    appendOutputBox(`${formatRouteScope(fixerId, folder)} CLI Routes`, [
+        {
+            heading: "Active",
+            content:
+                statuses.find((status) => status.route.id === activeId)?.route
+                    .display ?? "(none)",
+        },
+        {
+            heading: "Candidates",
+            content: statuses
+                .map(
+                    (status) =>
+                        `${status.available ? "ok  " : "fail"} ${status.route.display}`,
+                )
+                .join("\n"),
+        },
+    ]);
+    await vscode.window.showQuickPick(
+        statuses.map((status) => toRouteQuickPickItem(fixerId, folder, status)),
+        { placeHolder: `${formatRouteScope(fixerId, folder)} CLI routes` },
+    );
+}
+
+async function pinCliRouteForFixer(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): Promise<void> {
+    const statuses = await probeAllRoutes(fixerId, folder);
+    const automatic: vscode.QuickPickItem & { route?: CliRoute } = {
+        label: "$(sync) Automatic discovery",
+        description: getPinnedRouteId(fixerId, folder) ? "" : "active",
+        detail: "Probe routes in order and fall back when a route fails.",
+    };
+    const picked = await vscode.window.showQuickPick<
+        vscode.QuickPickItem & { route?: CliRoute }
+    >(
+        [
+            automatic,
+            ...statuses.map((status) =>
+                toRouteQuickPickItem(fixerId, folder, status),
+            ),
+        ],
+        { placeHolder: `Pin a ${formatRouteScope(fixerId, folder)} route` },
+    );
+    if (!picked) {
+        return;
+    }
+
+    await setPinnedRouteId(fixerId, folder, picked.route?.id);
+    if (picked.route) {
+        await setCachedCliRoute(fixerId, folder, picked.route);
+        OUTPUT.appendLine(
+            `[routes] Pinned ${formatRouteScope(fixerId, folder)} to ${picked.route.display}.`,
+        );
+    } else {
+        cliRouteCache.delete(getRouteKey(fixerId, folder));
+        OUTPUT.appendLine(
+            `[routes] ${formatRouteScope(fixerId, folder)} uses automatic route discovery.`,
+        );
+    }
+}
+
+function getEnabledRouteTargets(): Array<{
+    fixerId: CliFixerId;
+    folder: vscode.WorkspaceFolder | undefined;
+}> {
+    return getRouteFolders().flatMap((folder) =>
+        getEnabledCliFixerIds(folder).map((fixerId) => ({ fixerId, folder })),
+    );
+}
+
+async function reprobeAllCliRoutes(): Promise<void> {
+    invalidateCliRouteCaches();
+    if (!vscode.workspace.isTrusted) {
+        void vscode.window.showWarningMessage(
+            "AI Quick Fix: CLI fixers are disabled in Restricted Mode. Trust this workspace to probe CLI routes.",
+        );
+        return;
+    }
+
+    const targets = getEnabledRouteTargets();
+    if (targets.length === 0) {
+        void vscode.window.showInformationMessage(
+            "AI Quick Fix: no CLI fixers are enabled.",
+        );
+        return;
+    }
+
+    await clearRouteStats(targets);
+    const lines = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: "AI Quick Fix: re-probing CLI routes",
+        },
+        async (progress) => {
+            const results: string[] = [];
+            for (const { fixerId, folder } of targets) {
+                progress.report({
+                    message: formatRouteScope(fixerId, folder),
+                    increment: 100 / targets.length,
+                });
+                const route = await getCliRoute(fixerId, folder, true);
+                results.push(
+                    `${formatRouteScope(fixerId, folder)}: ${route?.display ?? "no working route"}`,
+                );
+            }
+            return results;
+        },
+    );
+    appendOutputBox("CLI Route Re-probe", [
+        { heading: "Routes", content: lines.join("\n") },
+    ]);
+}
+
+function showRouteHealth(): void {
+    const targets = getEnabledRouteTargets();
+    if (targets.length === 0) {
+        void vscode.window.showInformationMessage(
+            "AI Quick Fix: no CLI fixers are enabled.",
+        );
+        return;
+    }
+
+    const stats = getRouteStatsRecords();
+    appendOutputBox(
+        "CLI Route Health",
+        targets.map(({ fixerId, folder }) => {
+            const activeId = getActiveRouteId(fixerId, folder);
+            const routes = rankCliRoutes(
+                getCliRouteCandidates(fixerId, folder),
+                folder,
+                activeId,
+            );
+            return {
+                heading: formatRouteScope(fixerId, folder),
+                content: routes
+                    .map((route) =>
+                        formatRouteHealth(
+                            route,
+                            stats[getRouteStatsKey(route, folder)],
+                            route.id === activeId,
+                        ),
+                    )
+                    .join("\n"),
+            };
+        }),
+    );
+}
+
+function formatRouteHealth(
+    route: CliRoute,
+    stats: RouteStats | undefined,
+    active: boolean,
+): string {
+    const marker = active ? "*" : " ";
+    if (!stats) {
+        return `${marker} ${route.display}: no runs yet`;
+    }
+
+    const runs = stats.successes + stats.failures + stats.timeouts;
+    const median = getMedian(stats.durationsMs);
+    return [
+        `${marker} ${route.display}:`,
+        `${stats.successes}/${runs} ok (${Math.round((stats.successes / Math.max(runs, 1)) * 100)}%)`,
+        `${stats.failures} failed`,
+        `${stats.timeouts} timed out`,
+        `median ${median === undefined ? "n/a" : formatDuration(median)}`,
+    ].join(" ");
+}
+
+function invalidateCliRouteCaches(): void {
+    structuredOutputUnsupported.clear();
+    cliProbeCache.clear();
+    cliProbeDiscovery.clear();
+    cliRouteCache.clear();
+    cliRouteDiscovery.clear();
+}
+
+function scheduleRouteRevalidation(): void {
+    stopRouteRevalidation();
+    const intervalMs = getCliSettings().routeRevalidateMs;
+    if (intervalMs <= 0) {
+        return;
+    }
+    routeRevalidationTimer = setInterval(() => {
+        void revalidateCliRoutes();
+    }, intervalMs);
+}
+
+function stopRouteRevalidation(): void {
+    if (routeRevalidationTimer) {
+        clearInterval(routeRevalidationTimer);
+        routeRevalidationTimer = undefined;
+    }
+}
+
+async function revalidateCliRoutes(): Promise<void> {
+    if (!vscode.workspace.isTrusted) {
+        return;
+    }
+    cliProbeCache.clear();
+    for (const { fixerId, folder } of getEnabledRouteTargets()) {
+        if (getPinnedRoute(fixerId, folder)) {
+            continue;
+        }
+        const key = getRouteKey(fixerId, folder);
+        const previous = cliRouteCache.has(key)
+            ? (cliRouteCache.get(key)?.id ?? null)
+            : (getPersistedRouteId(fixerId, folder) ?? null);
+        try {
+            const route = await getCliRoute(fixerId, folder, true);
+            if ((route?.id ?? null) !== previous) {
+                OUTPUT.appendLine(
+                    `[routes] ${formatRouteScope(fixerId, folder)} route changed: ${route?.display ?? "no working route"}.`,
+                );
+            }
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : String(err);
+            OUTPUT.appendLine(
+                `[routes] ${formatRouteScope(fixerId, folder)} revalidation failed: ${msg}`,
+            );
+        }
+    }
+}
+
+function getFolderSections(
+    folder: vscode.WorkspaceFolder | undefined,
+): Array<{ heading: string; content: string }> {
+    return folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+        ? [{ heading: "Folder", content: folder.name }]
+        : [];
+}
+
+function getRouteKey(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string {
+    return folder ? `${folder.uri.toString()}\u0000${fixerId}` : fixerId;
+}
+
 async function getCliRoute(
     fixerId: CliFixerId,
+    folder?: vscode.WorkspaceFolder,
     forceRefresh = false,
 ): Promise<CliRoute | null> {
-    if (!forceRefresh && cliRouteCache.has(fixerId)) {
-        const cached = cliRouteCache.get(fixerId) ?? null;
+    if (!vscode.workspace.isTrusted) {
+        return null;
+    }
+
+    const key = getRouteKey(fixerId, folder);
+    const pinnedId = getPinnedRouteId(fixerId, folder);
+    if (pinnedId) {
+        const pinned = getPinnedRoute(fixerId, folder);
+        if (
+            pinned &&
+            (await probeRoute(pinned, getProbeWorkingDirectory(folder)))
+        ) {
+            unavailablePinnedRoutes.delete(key);
+            return pinned;
+        }
+        if (!unavailablePinnedRoutes.has(key)) {
+            unavailablePinnedRoutes.add(key);
+            OUTPUT.appendLine(
+                `[routes] ${formatPinnedRouteUnavailable(fixerId, folder)}`,
+            );
+        }
+        return null;
+    }
+
+    if (!forceRefresh && cliRouteCache.has(key)) {
+        const cached = cliRouteCache.get(key) ?? null;
         if (!cached) {
             return null;
         }
-        if (isRouteAvailable(fixerId, cached.id)) {
+        if (isRouteAvailable(fixerId, folder, cached.id)) {
             return cached;
         }
-        await setCachedCliRoute(fixerId, null);
+        await setCachedCliRoute(fixerId, folder, null);
     }
 
     if (!forceRefresh) {
-        const inFlight = cliRouteDiscovery.get(fixerId);
+        const inFlight = cliRouteDiscovery.get(key);
         if (inFlight) {
             return inFlight;
         }
     }
 
-    const discovery = discoverCliRoute(fixerId);
-    cliRouteDiscovery.set(fixerId, discovery);
+    const discovery = discoverCliRoute(fixerId, folder);
+    cliRouteDiscovery.set(key, discovery);
 
     try {
         return await discovery;
     } finally {
-        cliRouteDiscovery.delete(fixerId);
+        cliRouteDiscovery.delete(key);
     }
 }
 
-async function discoverCliRoute(fixerId: CliFixerId): Promise<CliRoute | null> {
+async function discoverCliRoute(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): Promise<CliRoute | null> {
     const preferred = getDiscoveryPreferredRouteId(
         fixerId,
-        getPersistedRouteId(fixerId),
+        getPersistedRouteId(fixerId, folder),
     );
-    const routes = orderRoutesWithPreferred(
-        getCliRouteCandidates(fixerId),
+    const routes = rankCliRoutes(
+        getCliRouteCandidates(fixerId, folder),
+        folder,
         preferred,
     );
-    const cwd = getProbeWorkingDirectory();
+    const cwd = getProbeWorkingDirectory(folder);
 
     for (const route of routes) {
         if (await probeRoute(route, cwd)) {
-            await setCachedCliRoute(fixerId, route);
+            await setCachedCliRoute(fixerId, folder, route);
             return route;
         }
     }
 
-    await setCachedCliRoute(fixerId, null);
+    await setCachedCliRoute(fixerId, folder, null);
     return null;
 }
 
-function getCliRouteCandidates(fixerId: CliFixerId): CliRoute[] {
-    const settings = getCliSettings();
-    const routes =
-        fixerId === "codex-cli" ? getCodexCliRoutes() : getClaudeCliRoutes();
+function getCliRouteCandidates(
+    fixerId: CliFixerId,
+    folder?: vscode.WorkspaceFolder,
+): CliRoute[] {
+    const settings = getCliSettings(folder);
+    const routes = getCliRoutesForFixer(fixerId, folder);
 
     if (!settings.enableWslRoutes) {
         return routes.filter((route) => !route.id.startsWith("wsl"));
@@ -661,108 +4878,178 @@ function getCliRouteCandidates(fixerId: CliFixerId): CliRoute[] {
     return routes;
 }
 
-function isRouteAvailable(fixerId: CliFixerId, routeId: string): boolean {
-    return getCliRouteCandidates(fixerId).some((route) => route.id === routeId);
+function getCliRoutesForFixer(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): CliRoute[] {
+    const settings = getCliSettings(folder);
+    if (fixerId === "codex-cli") {
+        return getCodexCliRoutes(
+            settings.patchMode,
+            settings.codexForbiddenFlags,
+        );
+    }
+    if (fixerId === "claude-cli") {
+        return getClaudeCliRoutes(settings.patchMode);
+    }
+
+    const custom = getCustomCliFixer(fixerId, folder);
+    return custom ? getCustomCliRoutes(custom) : [];
+}
+
+function isRouteAvailable(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+    routeId: string,
+): boolean {
+    return getCliRouteCandidates(fixerId, folder).some(
+        (route) => route.id === routeId,
+    );
 }
 
-function getCodexCliRoutes(): CliRoute[] {
+function getCodexCliRoutes(
+    patchMode: boolean,
+    forbiddenFlags: string[][] = [],
+): CliRoute[] {
     const binaries = ["codex", "codex-cli"];
     const routes: CliRoute[] = [];
+    const patchVariants = [
+        {
+            idSuffix: "read-only-skipgit",
+            permissionLevel: 0,
+            displaySuffix: " (--sandbox read-only --skip-git-repo-check)",
+            flags: ["--sandbox", "read-only", "--skip-git-repo-check"],
+        },
+        {
+            idSuffix: "read-only",
+            permissionLevel: 0,
+            displaySuffix: " (--sandbox read-only)",
+            flags: ["--sandbox", "read-only"],
+        },
+    ];
+    const editVariants = [
+        {
+            idSuffix: "workspace-write-skipgit",
+            permissionLevel: 1,
+            displaySuffix: " (--sandbox workspace-write --skip-git-repo-check)",
+            flags: ["--sandbox", "workspace-write", "--skip-git-repo-check"],
+        },
+        {
+            idSuffix: "auto-skipgit",
+            permissionLevel: 2,
+            displaySuffix: " (--full-auto --skip-git-repo-check)",
+            flags: ["--full-auto", "--skip-git-repo-check"],
+        },
+        {
+            idSuffix: "skipgit",
+            permissionLevel: 3,
+            displaySuffix: " (--skip-git-repo-check)",
+            flags: ["--skip-git-repo-check"],
+        },
+        {
+            idSuffix: "plain",
+            permissionLevel: 3,
+            displaySuffix: "",
+            flags: [],
+        },
+    ];
+
+    const variants = (patchMode ? patchVariants : editVariants).filter(
+        (variant) =>
+            !forbiddenFlags.some((tokens) =>
+                variant.flags.some((_, start) =>
+                    tokens.every(
+                        (token, offset) =>
+                            variant.flags[start + offset] === token,
+                    ),
+                ),
+            ),
+    );
 
-    for (const binary of binaries) {
-        const variants = [
-            {
-                idSuffix: "workspace-write-skipgit",
-                displaySuffix:
-                    " (--sandbox workspace-write --skip-git-repo-check)",
-                runArgs: (prompt: string) => [
-                    "exec",
-                    "--sandbox",
-                    "workspace-write",
-                    "--skip-git-repo-check",
-                    prompt,
-                ],
-                runShell: (prompt: string) =>
-                    `${binary} exec --sandbox workspace-write --skip-git-repo-check ${quoteForPosixShell(prompt)}`,
-            },
-            {
-                idSuffix: "auto-skipgit",
-                displaySuffix: " (--full-auto --skip-git-repo-check)",
-                runArgs: (prompt: string) => [
-                    "exec",
-                    "--full-auto",
-                    "--skip-git-repo-check",
-                    prompt,
-                ],
-                runShell: (prompt: string) =>
-                    `${binary} exec --full-auto --skip-git-repo-check ${quoteForPosixShell(prompt)}`,
-            },
-            {
-                idSuffix: "skipgit",
-                displaySuffix: " (--skip-git-repo-check)",
-                runArgs: (prompt: string) => [
-                    "exec",
-                    "--skip-git-repo-check",
-                    prompt,
-                ],
-                runShell: (prompt: string) =>
-                    `${binary} exec --skip-git-repo-check ${quoteForPosixShell(prompt)}`,
-            },
-            {
-                idSuffix: "plain",
-                displaySuffix: "",
-                runArgs: (prompt: string) => ["exec", prompt],
-                runShell: (prompt: string) =>
-                    `${binary} exec ${quoteForPosixShell(prompt)}`,
-            },
-        ];
-
+    for (const binary of binaries) {
         for (const variant of variants) {
+            const runArgs = (prompt: string, json: boolean): string[] => [
+                "exec",
+                ...(json ? ["--json"] : []),
+                ...variant.flags,
+                prompt,
+            ];
+            const runShell = (prompt: string, json: boolean): string =>
+                [
+                    binary,
+                    ...runArgs(prompt, json).slice(0, -1),
+                    quoteForPosixShell(prompt),
+                ].join(" ");
+
             routes.push(
                 {
                     id: `native:${binary}:exec:${variant.idSuffix}`,
                     display: `${binary} exec${variant.displaySuffix}`,
+                    permissionLevel: variant.permissionLevel,
                     probe: { command: binary, args: ["exec", "--help"] },
                     buildRun: (prompt) => ({
                         command: binary,
-                        args: variant.runArgs(prompt),
+                        args: runArgs(prompt, false),
+                    }),
+                    structuredRun: (prompt) => ({
+                        command: binary,
+                        args: runArgs(prompt, true),
                     }),
+                    outputFormat: "codex-json",
                 },
                 {
                     id: `bash:${binary}:exec:${variant.idSuffix}`,
                     display: `bash -> ${binary} exec${variant.displaySuffix}`,
+                    permissionLevel: variant.permissionLevel,
                     probe: {
                         command: "bash",
                         args: ["-lc", `${binary} exec --help`],
                     },
                     buildRun: (prompt) => ({
                         command: "bash",
-                        args: ["-lc", variant.runShell(prompt)],
+                        args: ["-lc", runShell(prompt, false)],
+                    }),
+                    structuredRun: (prompt) => ({
+                        command: "bash",
+                        args: ["-lc", runShell(prompt, true)],
                     }),
+                    outputFormat: "codex-json",
                 },
                 {
                     id: `wsl:${binary}:exec:${variant.idSuffix}`,
                     display: `wsl bash -> ${binary} exec${variant.displaySuffix}`,
+                    permissionLevel: variant.permissionLevel,
                     probe: {
                         command: "wsl",
                         args: ["bash", "-lc", `${binary} exec --help`],
                     },
                     buildRun: (prompt) => ({
                         command: "wsl",
-                        args: ["bash", "-lc", variant.runShell(prompt)],
+                        args: ["bash", "-lc", runShell(prompt, false)],
+                    }),
+                    structuredRun: (prompt) => ({
+                        command: "wsl",
+                        args: ["bash", "-lc", runShell(prompt, true)],
                     }),
+                    outputFormat: "codex-json",
                 },
                 {
                     id: `wsl-exec:${binary}:exec:${variant.idSuffix}`,
                     display: `wsl --exec ${binary} exec${variant.displaySuffix}`,
+                    permissionLevel: variant.permissionLevel,
                     probe: {
                         command: "wsl",
                         args: ["--exec", binary, "exec", "--help"],
                     },
                     buildRun: (prompt) => ({
                         command: "wsl",
-                        args: ["--exec", binary, ...variant.runArgs(prompt)],
+                        args: ["--exec", binary, ...runArgs(prompt, false)],
+                    }),
+                    structuredRun: (prompt) => ({
+                        command: "wsl",
+                        args: ["--exec", binary, ...runArgs(prompt, true)],
                     }),
+                    outputFormat: "codex-json",
                 },
             );
         }
@@ -771,66 +5058,106 @@ function getCodexCliRoutes(): CliRoute[] {
     return routes;
 }
 
-function getClaudeCliRoutes(): CliRoute[] {
+function getClaudeCliRoutes(patchMode: boolean): CliRoute[] {
     const binaries = ["claude", "claude-cli"];
     const routes: CliRoute[] = [];
+    const idSuffix = patchMode ? ":patch" : "";
+    const displaySuffix = patchMode ? " (no edit tools)" : "";
 
     for (const binary of binaries) {
+        const runArgs = (
+            flag: string,
+            prompt: string,
+            json: boolean,
+        ): string[] => [
+            flag,
+            ...(json ? ["--output-format", "json"] : []),
+            ...(patchMode ? CLAUDE_PATCH_MODE_ARGS : []),
+            prompt,
+        ];
+        const runShell = (prompt: string, json: boolean): string =>
+            [
+                binary,
+                ...runArgs("-p", prompt, json).slice(0, -1),
+                quoteForPosixShell(prompt),
+            ].join(" ");
+
         routes.push(
             {
-                id: `native:${binary}:p`,
-                display: `${binary} -p`,
+                id: `native:${binary}:p${idSuffix}`,
+                display: `${binary} -p${displaySuffix}`,
                 probe: { command: binary, args: ["--help"] },
                 buildRun: (prompt) => ({
                     command: binary,
-                    args: ["-p", prompt],
+                    args: runArgs("-p", prompt, false),
+                }),
+                structuredRun: (prompt) => ({
+                    command: binary,
+                    args: runArgs("-p", prompt, true),
                 }),
+                outputFormat: "claude-json",
             },
             {
-                id: `native:${binary}:print`,
-                display: `${binary} --print`,
+                id: `native:${binary}:print${idSuffix}`,
+                display: `${binary} --print${displaySuffix}`,
                 probe: { command: binary, args: ["--help"] },
                 buildRun: (prompt) => ({
                     command: binary,
-                    args: ["--print", prompt],
+                    args: runArgs("--print", prompt, false),
+                }),
+                structuredRun: (prompt) => ({
+                    command: binary,
+                    args: runArgs("--print", prompt, true),
                 }),
+                outputFormat: "claude-json",
             },
             {
-                id: `bash:${binary}:p`,
-                display: `bash -> ${binary} -p`,
+                id: `bash:${binary}:p${idSuffix}`,
+                display: `bash -> ${binary} -p${displaySuffix}`,
                 probe: { command: "bash", args: ["-lc", `${binary} --help`] },
                 buildRun: (prompt) => ({
                     command: "bash",
-                    args: ["-lc", `${binary} -p ${quoteForPosixShell(prompt)}`],
+                    args: ["-lc", runShell(prompt, false)],
+                }),
+                structuredRun: (prompt) => ({
+                    command: "bash",
+                    args: ["-lc", runShell(prompt, true)],
                 }),
+                outputFormat: "claude-json",
             },
             {
-                id: `wsl:${binary}:p`,
-                display: `wsl bash -> ${binary} -p`,
+                id: `wsl:${binary}:p${idSuffix}`,
+                display: `wsl bash -> ${binary} -p${displaySuffix}`,
                 probe: {
                     command: "wsl",
                     args: ["bash", "-lc", `${binary} --help`],
                 },
                 buildRun: (prompt) => ({
                     command: "wsl",
-                    args: [
-                        "bash",
-                        "-lc",
-                        `${binary} -p ${quoteForPosixShell(prompt)}`,
-                    ],
+                    args: ["bash", "-lc", runShell(prompt, false)],
                 }),
+                structuredRun: (prompt) => ({
+                    command: "wsl",
+                    args: ["bash", "-lc", runShell(prompt, true)],
+                }),
+                outputFormat: "claude-json",
             },
             {
-                id: `wsl-exec:${binary}:p`,
-                display: `wsl --exec ${binary} -p`,
+                id: `wsl-exec:${binary}:p${idSuffix}`,
+                display: `wsl --exec ${binary} -p${displaySuffix}`,
                 probe: {
                     command: "wsl",
                     args: ["--exec", binary, "--help"],
                 },
                 buildRun: (prompt) => ({
                     command: "wsl",
-                    args: ["--exec", binary, "-p", prompt],
+                    args: ["--exec", binary, ...runArgs("-p", prompt, false)],
+                }),
+                structuredRun: (prompt) => ({
+                    command: "wsl",
+                    args: ["--exec", binary, ...runArgs("-p", prompt, true)],
                 }),
+                outputFormat: "claude-json",
             },
         );
     }
@@ -838,6 +5165,91 @@ function getClaudeCliRoutes(): CliRoute[] {
     return routes;
 }
 
+function getCustomCliRoutes(fixer: CustomCliFixerSpec): CliRoute[] {
+    const routes: CliRoute[] = [];
+
+    for (const binary of fixer.binaries) {
+        const display = `${binary} ${fixer.runArgs.join(" ")}`;
+        const probeShell = [
+            binary,
+            ...fixer.probeArgs.map(quoteForPosixShell),
+        ].join(" ");
+        const runShell = (prompt: string): string =>
+            [
+                binary,
+                ...expandRunArgs(fixer.runArgs, prompt).map(quoteForPosixShell),
+            ].join(" ");
+
+        for (const wrapper of fixer.wrappers) {
+            switch (wrapper) {
+                case "native":
+                    routes.push({
+                        id: `native:${binary}:${fixer.id}`,
+                        display,
+                        probe: { command: binary, args: fixer.probeArgs },
+                        buildRun: (prompt) => ({
+                            command: binary,
+                            args: expandRunArgs(fixer.runArgs, prompt),
+                        }),
+                    });
+                    break;
+                case "bash":
+                    routes.push({
+                        id: `bash:${binary}:${fixer.id}`,
+                        display: `bash -> ${display}`,
+                        probe: { command: "bash", args: ["-lc", probeShell] },
+                        buildRun: (prompt) => ({
+                            command: "bash",
+                            args: ["-lc", runShell(prompt)],
+                        }),
+                    });
+                    break;
+                case "wsl":
+                    routes.push({
+                        id: `wsl:${binary}:${fixer.id}`,
+                        display: `wsl bash -> ${display}`,
+                        probe: {
+                            command: "wsl",
+                            args: ["bash", "-lc", probeShell],
+                        },
+                        buildRun: (prompt) => ({
+                            command: "wsl",
+                            args: ["bash", "-lc", runShell(prompt)],
+                        }),
+                    });
+                    break;
+                case "wsl-exec":
+                    routes.push({
+                        id: `wsl-exec:${binary}:${fixer.id}`,
+                        display: `wsl --exec ${display}`,
+                        probe: {
+                            command: "wsl",
+                            args: ["--exec", binary, ...fixer.probeArgs],
+                        },
+                        buildRun: (prompt) => ({
+                            command: "wsl",
+                            args: [
+                                "--exec",
+                                binary,
+                                ...expandRunArgs(fixer.runArgs, prompt),
+                            ],
+                        }),
+                    });
+                    break;
+            }
+        }
+    }
+
+    return routes;
+}
+
+function expandRunArgs(template: string[], prompt: string): string[] {
+    if (!template.some((arg) => arg.includes(PROMPT_PLACEHOLDER))) {
+        return [...template, prompt];
+    }
+    return template.map((arg) => arg.split(PROMPT_PLACEHOLDER).join(prompt));
+}
+
 async function probeRoute(route: CliRoute, cwd: string): Promise<boolean> {
     const key = `${cwd}\u0000${route.probe.command}\u0000${route.probe.args.join("\u0000")}`;
     if (cliProbeCache.has(key)) {
@@ -854,7 +5266,7 @@ async function probeRoute(route: CliRoute, cwd: string): Promise<boolean> {
             const result = await runCommand(
                 route.probe,
                 cwd,
-                CLI_PROBE_TIMEOUT_MS,
+                getCliSettings(vscode.Uri.file(cwd)).probeTimeoutMs,
             );
             const success = isProcessSuccess(result);
             cliProbeCache.set(key, success);
@@ -867,23 +5279,185 @@ async function probeRoute(route: CliRoute, cwd: string): Promise<boolean> {
     return discovery;
 }
 
-function orderRoutesWithPreferred(
+function rankCliRoutes(
     routes: CliRoute[],
+    folder: vscode.WorkspaceFolder | undefined,
     preferredId: string | undefined,
 ): CliRoute[] {
-    if (!preferredId) {
-        return routes;
+    const stats = getRouteStatsRecords();
+    const ordered = [
+        ...routes.filter((route) => route.id === preferredId),
+        ...routes.filter((route) => route.id !== preferredId),
+    ];
+    const ranked = ordered.map((route, position) => {
+        const entry = stats[getRouteStatsKey(route, folder)];
+        const preferred = route.id === preferredId;
+        return {
+            route,
+            position,
+            preferred,
+            tier:
+                entry || !preferred
+                    ? Math.floor(
+                          getRouteReliability(entry) * ROUTE_RELIABILITY_TIERS,
+                      )
+                    : Number.POSITIVE_INFINITY,
+            medianMs:
+                (entry ? getMedian(entry.durationsMs) : undefined) ??
+                Number.POSITIVE_INFINITY,
+        };
+    });
+
+    const result = [...ordered];
+    const levels = new Set(ranked.map(({ route }) => route.permissionLevel));
+    for (const level of levels) {
+        const slots = ranked.filter(
+            ({ route }) => route.permissionLevel === level,
+        );
+        const sorted = [...slots].sort(
+            (a, b) =>
+                b.tier - a.tier ||
+                Number(b.preferred) - Number(a.preferred) ||
+                a.medianMs - b.medianMs ||
+                a.position - b.position,
+        );
+        slots.forEach((slot, index) => {
+            result[slot.position] = sorted[index].route;
+        });
     }
+    return result;
+}
 
-    const preferred = routes.find((route) => route.id === preferredId);
-    if (!preferred) {
-        return routes;
+function getRouteReliability(stats: RouteStats | undefined): number {
+    if (!stats) {
+        return 0.5;
+    }
+    return (
+        (stats.successes + 1) /
+        (stats.successes + stats.failures + stats.timeouts + 2)
+    );
+}
+
+function getMedian(values: number[]): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+        ? sorted[middle]
+        : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function getRouteStatsKey(
+    route: CliRoute,
+    folder: vscode.WorkspaceFolder | undefined,
+): string {
+    return folder ? `${folder.uri.toString()}\u0000${route.id}` : route.id;
+}
+
+function getRouteStatsRecords(): Record<string, RouteStats> {
+    if (!extensionContextRef) {
+        return {};
+    }
+
+    const stored = extensionContextRef.globalState.get<unknown>(
+        CLI_ROUTE_STATS_STATE_KEY,
+        {},
+    );
+    const records: Record<string, RouteStats> = {};
+    if (!isRecord(stored)) {
+        return records;
+    }
+    for (const [key, value] of Object.entries(stored)) {
+        if (!isRecord(value)) {
+            continue;
+        }
+        const numberField = (field: string): number =>
+            typeof value[field] === "number" ? (value[field] as number) : 0;
+        records[key] = {
+            successes: numberField("successes"),
+            failures: numberField("failures"),
+            timeouts: numberField("timeouts"),
+            durationsMs: Array.isArray(value.durationsMs)
+                ? value.durationsMs.filter(
+                      (duration): duration is number =>
+                          typeof duration === "number",
+                  )
+                : [],
+            lastRunAt: numberField("lastRunAt"),
+        };
+    }
+    return records;
+}
+
+async function clearRouteStats(
+    targets: Array<{
+        fixerId: CliFixerId;
+        folder: vscode.WorkspaceFolder | undefined;
+    }>,
+): Promise<void> {
+    if (!extensionContextRef) {
+        return;
+    }
+
+    const records = getRouteStatsRecords();
+    for (const { fixerId, folder } of targets) {
+        for (const route of getCliRoutesForFixer(fixerId, folder)) {
+            delete records[getRouteStatsKey(route, folder)];
+        }
+    }
+    await extensionContextRef.globalState.update(
+        CLI_ROUTE_STATS_STATE_KEY,
+        records,
+    );
+}
+
+async function recordRouteRun(
+    route: CliRoute,
+    folder: vscode.WorkspaceFolder | undefined,
+    outcome: "success" | "failure" | "timeout",
+    durationMs: number,
+): Promise<void> {
+    if (!extensionContextRef) {
+        return;
     }
 
-    return [preferred, ...routes.filter((route) => route.id !== preferredId)];
+    const records = getRouteStatsRecords();
+    const key = getRouteStatsKey(route, folder);
+    const stats = records[key] ?? {
+        successes: 0,
+        failures: 0,
+        timeouts: 0,
+        durationsMs: [],
+        lastRunAt: 0,
+    };
+    switch (outcome) {
+        case "success":
+            stats.successes++;
+            stats.durationsMs = [...stats.durationsMs, durationMs].slice(
+                -ROUTE_STATS_DURATION_SAMPLES,
+            );
+            break;
+        case "failure":
+            stats.failures++;
+            break;
+        case "timeout":
+            stats.timeouts++;
+            break;
+    }
+    stats.lastRunAt = Date.now();
+    records[key] = stats;
+    await extensionContextRef.globalState.update(
+        CLI_ROUTE_STATS_STATE_KEY,
+        records,
+    );
 }
 
-function getPersistedRouteId(fixerId: CliFixerId): string | undefined {
+function getPersistedRouteId(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string | undefined {
     if (!extensionContextRef) {
         return undefined;
     }
@@ -891,15 +5465,100 @@ function getPersistedRouteId(fixerId: CliFixerId): string | undefined {
     const persisted = extensionContextRef.globalState.get<
         Record<string, unknown>
     >(CLI_ROUTE_STATE_KEY, {});
-    const value = persisted[fixerId];
+    return getRouteStateValue(persisted, fixerId, folder);
+}
+
+function getPinnedRouteId(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string | undefined {
+    if (!extensionContextRef) {
+        return undefined;
+    }
+
+    const pinned = extensionContextRef.globalState.get<Record<string, unknown>>(
+        CLI_PINNED_ROUTE_STATE_KEY,
+        {},
+    );
+    return getRouteStateValue(pinned, fixerId, folder);
+}
+
+function formatPinnedRouteUnavailable(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string {
+    const pinned = getPinnedRoute(fixerId, folder);
+    return `pinned route ${pinned?.display ?? getPinnedRouteId(fixerId, folder)} for ${formatRouteScope(fixerId, folder)} is unavailable. Run Pin Route to pick another route or choose Automatic discovery to unpin it.`;
+}
+
+function getPinnedRoute(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): CliRoute | undefined {
+    const pinnedId = getPinnedRouteId(fixerId, folder);
+    if (!pinnedId) {
+        return undefined;
+    }
+    return getCliRouteCandidates(fixerId, folder).find(
+        (route) => route.id === pinnedId,
+    );
+}
+
+async function setPinnedRouteId(
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+    routeId: string | undefined,
+): Promise<void> {
+    if (!extensionContextRef) {
+        return;
+    }
+
+    const pinned = extensionContextRef.globalState.get<Record<string, unknown>>(
+        CLI_PINNED_ROUTE_STATE_KEY,
+        {},
+    );
+    unavailablePinnedRoutes.delete(getRouteKey(fixerId, folder));
+    setRouteStateValue(pinned, fixerId, folder, routeId);
+
+    await extensionContextRef.globalState.update(
+        CLI_PINNED_ROUTE_STATE_KEY,
+        pinned,
+    );
+}
+
+function getRouteStateValue(
+    state: Record<string, unknown>,
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+): string | undefined {
+    const key = getRouteKey(fixerId, folder);
+    const value = key in state ? state[key] : state[fixerId];
     return typeof value === "string" ? value : undefined;
 }
 
+function setRouteStateValue(
+    state: Record<string, unknown>,
+    fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
+    routeId: string | undefined,
+): void {
+    const key = getRouteKey(fixerId, folder);
+    if (routeId) {
+        state[key] = routeId;
+    } else if (key !== fixerId && typeof state[fixerId] === "string") {
+        state[key] = null;
+    } else {
+        delete state[key];
+    }
+}
+
 async function setCachedCliRoute(
     fixerId: CliFixerId,
+    folder: vscode.WorkspaceFolder | undefined,
     route: CliRoute | null,
 ): Promise<void> {
-    cliRouteCache.set(fixerId, route);
+    const key = getRouteKey(fixerId, folder);
+    cliRouteCache.set(key, route);
 
     if (!extensionContextRef) {
         return;
@@ -909,11 +5568,7 @@ async function setCachedCliRoute(
         Record<string, unknown>
     >(CLI_ROUTE_STATE_KEY, {});
 
-    if (route) {
-        persisted[fixerId] = route.id;
-    } else {
-        delete persisted[fixerId];
-    }
+    setRouteStateValue(persisted, fixerId, folder, route?.id);
 
     await extensionContextRef.globalState.update(
         CLI_ROUTE_STATE_KEY,
@@ -921,8 +5576,8 @@ async function setCachedCliRoute(
     );
 }
 
-function getProbeWorkingDirectory(): string {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+function getProbeWorkingDirectory(folder?: vscode.WorkspaceFolder): string {
+    const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
     if (workspaceFolder) {
         return workspaceFolder.uri.fsPath;
     }
@@ -937,6 +5592,223 @@ function getCommandWorkingDirectory(uri: vscode.Uri): string {
     return path.dirname(uri.fsPath);
 }
 
+async function captureFileSnapshot(
+    root: string,
+    target: vscode.Uri,
+): Promise<FileSnapshot> {
+    const paths = await listSnapshotPaths(root);
+    return await captureSnapshot(
+        root,
+        [target.fsPath, ...paths.slice(0, MAX_SNAPSHOT_FILES)],
+        paths.length <= MAX_SNAPSHOT_FILES,
+    );
+}
+
+async function collectFileChanges(
+    snapshot: FileSnapshot,
+): Promise<FileChange[]> {
+    return await collectSnapshotChanges(
+        snapshot,
+        await listSnapshotPaths(snapshot.root),
+    );
+}
+
+async function listSnapshotPaths(root: string): Promise<string[]> {
+    const uris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(root, "**/*"),
+        SNAPSHOT_EXCLUDE_GLOB,
+        MAX_SNAPSHOT_FILES + 1,
+    );
+    return uris.map((uri) => uri.fsPath);
+}
+
+function recordFixHistory(
+    entry: Omit<FixHistoryEntry, "id">,
+    maxEntries: number,
+): void {
+    if (maxEntries <= 0 || entry.changes.length === 0) {
+        return;
+    }
+
+    fixHistory.unshift({ id: nextFixHistoryId++, ...entry });
+    fixHistory.splice(maxEntries);
+}
+
+async function runUndoFix(entry: FixHistoryEntry): Promise<void> {
+    const notCaptured = entry.changes.filter((change) => !change.restorable);
+    const edited: FileChange[] = [];
+    for (const change of entry.changes) {
+        if (!change.restorable) {
+            continue;
+        }
+        const current = await readSnapshotFile(change.fsPath);
+        const unchanged =
+            change.kind === "deleted"
+                ? !current
+                : !!current && !!change.after && current.equals(change.after);
+        if (!unchanged) {
+            edited.push(change);
+        }
+    }
+
+    let changes = entry.changes.filter((change) => change.restorable);
+    if (edited.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `AI Quick Fix: ${edited.length} file(s) changed again after the ${entry.label} fix: ` +
+                edited
+                    .map((change) => path.relative(entry.root, change.fsPath))
+                    .join(", "),
+            { modal: true },
+            "Restore All",
+            "Skip Edited Files",
+        );
+        if (!choice) {
+            return;
+        }
+        if (choice === "Skip Edited Files") {
+            changes = changes.filter((change) => !edited.includes(change));
+        }
+    }
+
+    const openDocumentTimes = await captureOpenDocumentTimes(entry.root);
+    changes = await restoreFileChanges(changes);
+    await reconcileOpenDocuments(
+        `Undo ${entry.label}`,
+        entry.root,
+        openDocumentTimes,
+    );
+    const index = fixHistory.indexOf(entry);
+    if (index >= 0) {
+        fixHistory.splice(index, 1);
+    }
+
+    const skipped = entry.changes.filter(
+        (change) => change.restorable && !changes.includes(change),
+    );
+    appendOutputBox(`Undo ${entry.label} Quick Fix`, [
+        { heading: "Fix", content: `${entry.file}:${entry.line}` },
+        {
+            heading: "Restored Files",
+            content: formatFileChanges(entry.root, changes),
+        },
+        ...(skipped.length > 0
+            ? [
+                  {
+                      heading: "Skipped Files",
+                      content: formatFileChanges(entry.root, skipped),
+                  },
+              ]
+            : []),
+        ...(notCaptured.length > 0
+            ? [
+                  {
+                      heading: "Not Restored",
+                      content: formatFileChanges(entry.root, notCaptured),
+                  },
+              ]
+            : []),
+    ]);
+}
+
+function formatRestoreSummary(restored: number, skipped: number): string {
+    return skipped > 0
+        ? `restored ${restored} file(s); ${skipped} file(s) were not captured and were left as they are.`
+        : `restored ${restored} file(s).`;
+}
+
+function formatFileChanges(root: string, changes: FileChange[]): string {
+    if (changes.length === 0) {
+        return "(no file changes detected)";
+    }
+    return changes
+        .map(
+            (change) =>
+                `${change.kind}: ${path.relative(root, change.fsPath) || change.fsPath}${change.restorable ? "" : " (not captured, cannot be restored)"}`,
+        )
+        .join("\n");
+}
+
+async function reviewFileChanges(
+    label: string,
+    snapshot: FileSnapshot,
+    changes: FileChange[],
+): Promise<boolean> {
+    if (changes.length === 0) {
+        return true;
+    }
+
+    const snapshotUris = changes.map((change) =>
+        registerSnapshotDocument(change),
+    );
+    try {
+        await openFileChangeDiff(snapshot, changes[0], snapshotUris[0]);
+        for (;;) {
+            const choice = await vscode.window.showWarningMessage(
+                `AI Quick Fix: ${label} changed ${changes.length} file(s). Keep the changes?`,
+                "Accept",
+                "Reject",
+                ...(changes.length > 1 ? ["Show Changed Files"] : []),
+            );
+            if (choice !== "Show Changed Files") {
+                return choice !== "Reject";
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                changes.map((change, index) => ({
+                    label: path.relative(snapshot.root, change.fsPath),
+                    description: change.restorable
+                        ? change.kind
+                        : `${change.kind}, not captured`,
+                    index,
+                })),
+                { placeHolder: "Select a changed file to review" },
+            );
+            if (picked) {
+                await openFileChangeDiff(
+                    snapshot,
+                    changes[picked.index],
+                    snapshotUris[picked.index],
+                );
+            }
+        }
+    } finally {
+        for (const uri of snapshotUris) {
+            snapshotDocuments.delete(uri.toString());
+        }
+    }
+}
+
+function registerSnapshotDocument(change: FileChange): vscode.Uri {
+    const uri = vscode.Uri.file(change.fsPath).with({
+        scheme: SNAPSHOT_SCHEME,
+        query: `${Date.now()}`,
+    });
+    snapshotDocuments.set(
+        uri.toString(),
+        change.before?.toString("utf8") ?? "",
+    );
+    return uri;
+}
+
+async function openFileChangeDiff(
+    snapshot: FileSnapshot,
+    change: FileChange,
+    snapshotUri: vscode.Uri,
+): Promise<void> {
+    const relative = path.relative(snapshot.root, change.fsPath);
+    const current =
+        change.kind === "deleted"
+            ? snapshotUri.with({ query: `${snapshotUri.query}-deleted` })
+            : vscode.Uri.file(change.fsPath);
+    await vscode.commands.executeCommand(
+        "vscode.diff",
+        snapshotUri,
+        current,
+        `${relative} (AI Quick Fix review)`,
+        { preview: true },
+    );
+}
+
 function quoteForPosixShell(value: string): string {
     return `'${value.replace(/'/g, `'\\''`)}'`;
 }
@@ -945,27 +5817,43 @@ async function runCommand(
     spec: CommandSpec,
     cwd: string,
     timeoutMs: number,
+    token?: vscode.CancellationToken,
+    onOutput?: (chunk: string) => void,
+    keepStdoutTail = false,
 ): Promise<ProcessResult> {
     return await new Promise<ProcessResult>((resolve) => {
         let stdout = "";
         let stderr = "";
         let timedOut = false;
+        let cancelled = false;
         let errorCode: string | undefined;
         let settled = false;
 
-        const finalize = (result: ProcessResult): void => {
+        const finalize = (result: Omit<ProcessResult, "timeoutMs">): void => {
             if (settled) {
                 return;
             }
             settled = true;
-            resolve(result);
+            resolve({ ...result, timeoutMs });
         };
 
+        if (token?.isCancellationRequested) {
+            finalize({
+                exitCode: null,
+                stdout,
+                stderr,
+                timedOut: false,
+                cancelled: true,
+            });
+            return;
+        }
+
         let child;
         try {
             child = spawn(spec.command, spec.args, {
                 cwd,
                 windowsHide: true,
+                detached: process.platform !== "win32",
             });
         } catch (error) {
             const err = error as NodeJS.ErrnoException;
@@ -974,6 +5862,7 @@ async function runCommand(
                 stdout,
                 stderr: err.message,
                 timedOut: false,
+                cancelled: false,
                 errorCode: err.code,
             });
             return;
@@ -981,39 +5870,106 @@ async function runCommand(
 
         const timer = setTimeout(() => {
             timedOut = true;
-            child.kill();
+            killProcessTree(child);
         }, timeoutMs);
+        const cancellation = token?.onCancellationRequested(() => {
+            cancelled = true;
+            killProcessTree(child);
+        });
 
         child.stdout.on("data", (chunk: Buffer | string) => {
-            stdout = appendOutput(stdout, chunk.toString());
+            stdout = keepStdoutTail
+                ? appendOutputTail(stdout, chunk.toString())
+                : appendOutput(stdout, chunk.toString());
+            onOutput?.(chunk.toString());
         });
         child.stderr.on("data", (chunk: Buffer | string) => {
             stderr = appendOutput(stderr, chunk.toString());
+            onOutput?.(chunk.toString());
         });
         child.on("error", (error: NodeJS.ErrnoException) => {
             errorCode = error.code;
             clearTimeout(timer);
+            cancellation?.dispose();
             finalize({
                 exitCode: null,
                 stdout,
                 stderr: appendOutput(stderr, error.message),
                 timedOut: false,
+                cancelled,
                 errorCode,
             });
         });
         child.on("close", (exitCode: number | null) => {
             clearTimeout(timer);
+            cancellation?.dispose();
             finalize({
                 exitCode,
                 stdout,
                 stderr,
                 timedOut,
+                cancelled,
                 errorCode,
             });
         });
     });
 }
 
+function killProcessTree(child: ChildProcess): void {
+    const pid = child.pid;
+    if (pid === undefined) {
+        child.kill();
+        return;
+    }
+
+    if (process.platform === "win32") {
+        spawn("taskkill", ["/pid", String(pid), "/T", "/F"], {
+            windowsHide: true,
+        }).on("error", () => child.kill());
+        return;
+    }
+
+    const signalGroup = (signal: NodeJS.Signals): void => {
+        try {
+            process.kill(-pid, signal);
+        } catch {
+            child.kill(signal);
+        }
+    };
+    signalGroup("SIGTERM");
+    setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+            signalGroup("SIGKILL");
+        }
+    }, PROCESS_KILL_GRACE_MS).unref();
+}
+
+function createOutputStream(title: string): {
+    write: (chunk: string) => void;
+    end: () => void;
+} {
+    let atLineStart = true;
+    OUTPUT.show(true);
+    OUTPUT.appendLine(`[stream] ${title}`);
+    return {
+        write: (chunk) => {
+            for (const part of chunk.split(/(?<=\n)/)) {
+                if (!part) {
+                    continue;
+                }
+                OUTPUT.append(atLineStart ? `  | ${part}` : part);
+                atLineStart = part.endsWith("\n");
+            }
+        },
+        end: () => {
+            if (!atLineStart) {
+                OUTPUT.appendLine("");
+            }
+            OUTPUT.appendLine("[stream] process exited.");
+        },
+    };
+}
+
 function appendOutput(current: string, chunk: string): string {
     if (current.length >= MAX_PROCESS_OUTPUT_CHARS) {
         return current;
@@ -1022,8 +5978,42 @@ function appendOutput(current: string, chunk: string): string {
     return current + chunk.slice(0, remaining);
 }
 
+function isStructuredOutputRejected(result: ProcessResult): boolean {
+    if (
+        result.cancelled ||
+        result.timedOut ||
+        result.errorCode ||
+        result.exitCode === 0 ||
+        /^\s*[[{]/.test(result.stdout)
+    ) {
+        return false;
+    }
+
+    const output = `${result.stdout}\n${result.stderr}`.toLowerCase();
+    return (
+        output.includes("unknown option") ||
+        output.includes("unexpected argument") ||
+        output.includes("unrecognized option") ||
+        output.includes("unrecognized argument") ||
+        output.includes("invalid option") ||
+        output.includes("unknown argument")
+    );
+}
+
+function appendOutputTail(current: string, chunk: string): string {
+    const combined = current + chunk;
+    return combined.length > MAX_STRUCTURED_OUTPUT_CHARS
+        ? combined.slice(combined.length - MAX_STRUCTURED_OUTPUT_CHARS)
+        : combined;
+}
+
 function isProcessSuccess(result: ProcessResult): boolean {
-    return !result.timedOut && !result.errorCode && result.exitCode === 0;
+    return (
+        !result.timedOut &&
+        !result.cancelled &&
+        !result.errorCode &&
+        result.exitCode === 0
+    );
 }
 
 function isInvocationFailure(result: ProcessResult): boolean {
@@ -1049,8 +6039,11 @@ function isInvocationFailure(result: ProcessResult): boolean {
 }
 
 function formatProcessFailure(result: ProcessResult): string {
+    if (result.cancelled) {
+        return "cancelled by user; process tree terminated";
+    }
     if (result.timedOut) {
-        return `timed out after ${Math.round(CLI_RUN_TIMEOUT_MS / 1000)}s`;
+        return `timed out after ${Math.round(result.timeoutMs / 1000)}s`;
     }
     if (result.errorCode) {
         return `spawn failed (${result.errorCode})`;
@@ -1091,7 +6084,11 @@ function getProcessOutputText(result: ProcessResult): string {
 }
 
 function getMinimalProcessSummary(result: ProcessResult): string {
-    const lines = `${result.stdout}\n${result.stderr}`
+    return summarizeOutputText(`${result.stdout}\n${result.stderr}`);
+}
+
+function summarizeOutputText(text: string): string {
+    const lines = text
         .split(/\r?\n/)
         .map((line) => line.trim())
         .filter((line) => line.length > 0);
@@ -1193,10 +6190,14 @@ function truncateInline(content: string, maxChars: number): string {
 
 export function deactivate(): void {
     extensionContextRef = undefined;
-    cliProbeCache.clear();
-    cliProbeDiscovery.clear();
-    cliRouteCache.clear();
-    cliRouteDiscovery.clear();
+    stopRouteRevalidation();
+    tokenUsageStatus = undefined;
+    cancelAllFixJobs();
+    fixQueueStatus = undefined;
+    invalidateCliRouteCaches();
     commandAvailabilityCache.clear();
+    snapshotDocuments.clear();
+    redactionPatternCache.clear();
+    fixHistory.length = 0;
     OUTPUT.dispose();
 }
@@ -0,0 +1,124 @@
+import * as http from "http";
+import * as https from "https";
+
+const MAX_ERROR_BODY_CHARS = 220;
+
+export interface ChatCompletionReply {
+    content: string;
+    usage?: {
+        inputTokens?: number;
+        outputTokens?: number;
+    };
+}
+
+export interface CancellationSignal {
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export function postJson(
+    url: string,
+    body: unknown,
+    headers: Record<string, string>,
+    timeoutMs: number,
+    token?: CancellationSignal,
+): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch {
+            reject(new Error(`invalid endpoint URL: ${url}`));
+            return;
+        }
+
+        const payload = JSON.stringify(body);
+        const client = target.protocol === "https:" ? https : http;
+        const request = client.request(
+            target,
+            {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Content-Length": Buffer.byteLength(payload),
+                    ...headers,
+                },
+            },
+            (response) => {
+                const chunks: Buffer[] = [];
+                response.on("data", (chunk: Buffer) => chunks.push(chunk));
+                response.on("end", () => {
+                    const text = Buffer.concat(chunks).toString("utf8");
+                    const status = response.statusCode ?? 0;
+                    if (status < 200 || status >= 300) {
+                        const detail = text.trim() || "(empty response)";
+                        reject(
+                            new Error(
+                                `HTTP ${status}: ${detail.length > MAX_ERROR_BODY_CHARS ? `${detail.slice(0, MAX_ERROR_BODY_CHARS)}...` : detail}`,
+                            ),
+                        );
+                        return;
+                    }
+                    try {
+                        resolve(JSON.parse(text));
+                    } catch {
+                        reject(new Error("endpoint returned invalid JSON."));
+                    }
+                });
+                response.on("error", reject);
+            },
+        );
+        const cancellation = token?.onCancellationRequested(() => {
+            request.destroy(new Error("cancelled by user"));
+        });
+        request.setTimeout(timeoutMs, () => {
+            request.destroy(
+                new Error(`timed out after ${Math.round(timeoutMs / 1000)}s`),
+            );
+        });
+        request.on("error", reject);
+        request.on("close", () => cancellation?.dispose());
+        request.end(payload);
+    });
+}
+
+export function parseChatCompletion(response: unknown): ChatCompletionReply {
+    const choices = isRecord(response) ? response.choices : undefined;
+    const choice = Array.isArray(choices) ? choices[0] : undefined;
+    const message = isRecord(choice) ? choice.message : undefined;
+    const content = isRecord(message) ? message.content : undefined;
+    if (typeof content !== "string") {
+        throw new Error("endpoint response has no choices[0].message.content.");
+    }
+
+    const usage =
+        isRecord(response) && isRecord(response.usage)
+            ? response.usage
+            : undefined;
+    return {
+        content,
+        usage: usage
+            ? {
+                  inputTokens:
+                      typeof usage.prompt_tokens === "number"
+                          ? usage.prompt_tokens
+                          : undefined,
+                  outputTokens:
+                      typeof usage.completion_tokens === "number"
+                          ? usage.completion_tokens
+                          : undefined,
+              }
+            : undefined,
+    };
+}
+
+export function extractReplacementSnippet(content: string): string | undefined {
+    const fenced = /```[^\n]*\n([\s\S]*?)```/.exec(content);
+    const snippet = fenced
+        ? fenced[1].replace(/\r?\n$/, "")
+        : content.replace(/^\s*\n|\n\s*$/g, "");
+    return snippet.trim() ? snippet : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,162 @@
+export interface DiffHunk {
+    header: string;
+    oldStart: number;
+    oldLines: string[];
+    newLines: string[];
+}
+
+export interface FilePatch {
+    oldPath?: string;
+    newPath?: string;
+    hunks: DiffHunk[];
+}
+
+export function extractUnifiedDiff(output: string): string | undefined {
+    const fenced = /```(?:diff|patch)?[^\n]*\n([\s\S]*?)```/.exec(output);
+    const text = fenced ? fenced[1] : output;
+    const start = text.search(/^(diff --git |--- )/m);
+    return start >= 0 ? text.slice(start) : undefined;
+}
+
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+    const patches: FilePatch[] = [];
+    const lines = diff.split(/\r?\n/);
+    let current: FilePatch | undefined;
+    let hunk: DiffHunk | undefined;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+    let pendingBlankLines = 0;
+
+    const flushBlankLines = (limit: number): void => {
+        for (; pendingBlankLines > 0 && limit > 0; limit--) {
+            hunk?.oldLines.push("");
+            hunk?.newLines.push("");
+            oldRemaining--;
+            newRemaining--;
+            pendingBlankLines--;
+        }
+        pendingBlankLines = 0;
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        if (hunk) {
+            if (line.startsWith("\\")) {
+                continue;
+            }
+            if (line === "") {
+                pendingBlankLines++;
+                continue;
+            }
+
+            const remaining = Math.max(oldRemaining, newRemaining);
+            const marker = line[0];
+            if (
+                pendingBlankLines < remaining &&
+                (marker === " " || marker === "-" || marker === "+")
+            ) {
+                flushBlankLines(pendingBlankLines);
+                if (marker !== "+") {
+                    hunk.oldLines.push(line.slice(1));
+                    oldRemaining--;
+                }
+                if (marker !== "-") {
+                    hunk.newLines.push(line.slice(1));
+                    newRemaining--;
+                }
+                continue;
+            }
+
+            flushBlankLines(remaining);
+            hunk = undefined;
+        }
+
+        if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+            current = {
+                oldPath: parseDiffPath(line.slice(4)),
+                newPath: parseDiffPath(lines[index + 1].slice(4)),
+                hunks: [],
+            };
+            patches.push(current);
+            index++;
+            continue;
+        }
+
+        const header = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/.exec(line);
+        if (header) {
+            if (!current) {
+                throw new Error(`hunk without a file header: ${line}`);
+            }
+            hunk = {
+                header: header[0],
+                oldStart: Number(header[1]),
+                oldLines: [],
+                newLines: [],
+            };
+            oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+            newRemaining = header[3] === undefined ? 1 : Number(header[3]);
+            pendingBlankLines = 0;
+            current.hunks.push(hunk);
+        }
+    }
+    if (hunk) {
+        flushBlankLines(Math.max(oldRemaining, newRemaining));
+    }
+
+    return patches.filter((patch) => patch.hunks.length > 0 || !patch.newPath);
+}
+
+function parseDiffPath(raw: string): string | undefined {
+    const value = raw.split("\t")[0].trim();
+    if (value === "/dev/null") {
+        return undefined;
+    }
+    return value.replace(/^[ab]\//, "");
+}
+
+export function locateHunk(
+    lines: string[],
+    hunk: DiffHunk,
+    from: number,
+): number {
+    if (hunk.oldLines.length === 0) {
+        return Math.min(Math.max(from, hunk.oldStart), lines.length);
+    }
+
+    const matches = (start: number): boolean =>
+        start >= from &&
+        start + hunk.oldLines.length <= lines.length &&
+        hunk.oldLines.every(
+            (line, offset) =>
+                lines[start + offset].trimEnd() === line.trimEnd(),
+        );
+    const preferred = Math.max(from, hunk.oldStart - 1);
+    for (let delta = 0; delta <= lines.length; delta++) {
+        if (matches(preferred - delta)) {
+            return preferred - delta;
+        }
+        if (matches(preferred + delta)) {
+            return preferred + delta;
+        }
+    }
+    return -1;
+}
+
+export function coversWholeFile(lines: string[], hunks: DiffHunk[]): boolean {
+    let from = 0;
+    for (const hunk of hunks) {
+        if (
+            hunk.newLines.length > 0 ||
+            hunk.oldLines.length === 0 ||
+            locateHunk(lines, hunk, from) !== from
+        ) {
+            return false;
+        }
+        from += hunk.oldLines.length;
+    }
+    return (
+        hunks.length > 0 &&
+        (from === lines.length ||
+            (from === lines.length - 1 && lines[from] === ""))
+    );
+}
@@ -0,0 +1,97 @@
+export const REDACTION_PATTERNS: RegExp[] = [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+    /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+    /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+    /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+    /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+    /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"]+:(?<secret>[^\s@/'"]+)@/gi,
+    /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g,
+    /\b[\w.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credentials?)[\w.-]*["']?\s*[:=]\s*(["'`])(?<secret>[^"'`\s]{8,})\1/gi,
+    /\b[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Z0-9_]*=(?<secret>[^\s"'#]{8,})/g,
+];
+
+const REDACTED_PLACEHOLDER_PATTERN = /\[REDACTED_\d+\]/;
+
+export type RedactedSecrets = Map<string, string>;
+
+export interface RedactionResult {
+    text: string;
+    masked: number;
+}
+
+export function redactText(
+    text: string,
+    patterns: readonly RegExp[],
+    secrets: RedactedSecrets,
+): RedactionResult {
+    const placeholders = new Map<string, string>();
+    for (const [placeholder, secret] of secrets) {
+        placeholders.set(secret, placeholder);
+    }
+
+    let masked = 0;
+    let redacted = text;
+    for (const pattern of patterns) {
+        redacted = redacted.replace(
+            pattern,
+            (match: string, ...rest: unknown[]) => {
+                const groups = rest[rest.length - 1];
+                const secret =
+                    isRecord(groups) && typeof groups.secret === "string"
+                        ? groups.secret
+                        : match;
+                if (!secret || REDACTED_PLACEHOLDER_PATTERN.test(secret)) {
+                    return match;
+                }
+
+                let placeholder = placeholders.get(secret);
+                if (!placeholder) {
+                    placeholder = `[REDACTED_${secrets.size + 1}]`;
+                    placeholders.set(secret, placeholder);
+                    secrets.set(placeholder, secret);
+                }
+                masked++;
+                return match.replace(secret, placeholder);
+            },
+        );
+    }
+    return { text: redacted, masked };
+}
+
+export function restoreRedactedText(
+    text: string,
+    secrets: RedactedSecrets,
+): string {
+    if (secrets.size === 0) {
+        return text;
+    }
+    return text.replace(
+        new RegExp(REDACTED_PLACEHOLDER_PATTERN.source, "g"),
+        (placeholder) => secrets.get(placeholder) ?? placeholder,
+    );
+}
+
+export function restoreRedactedLines(
+    text: string,
+    before: string | undefined,
+    secrets: RedactedSecrets,
+): string {
+    if (before === undefined) {
+        return restoreRedactedText(text, secrets);
+    }
+    const unchanged = new Set(before.split("\n"));
+    return text
+        .split("\n")
+        .map((line) =>
+            unchanged.has(line) ? line : restoreRedactedText(line, secrets),
+        )
+        .join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,170 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export const MAX_SNAPSHOT_FILE_BYTES = 1_000_000;
+export const MAX_SNAPSHOT_TOTAL_BYTES = 32_000_000;
+const MTIME_SLACK_MS = 2000;
+
+export interface SnapshotFile {
+    mtimeMs: number;
+    size: number;
+    content?: Buffer;
+}
+
+export interface FileSnapshot {
+    root: string;
+    takenAt: number;
+    complete: boolean;
+    files: Map<string, SnapshotFile>;
+}
+
+export interface FileChange {
+    fsPath: string;
+    kind: "modified" | "created" | "deleted" | "changed";
+    before?: Buffer;
+    after?: Buffer;
+    restorable: boolean;
+}
+
+export async function captureSnapshot(
+    root: string,
+    paths: string[],
+    complete: boolean,
+): Promise<FileSnapshot> {
+    const takenAt = Date.now() - MTIME_SLACK_MS;
+    const files = new Map<string, SnapshotFile>();
+    let capturedBytes = 0;
+    for (const fsPath of paths) {
+        if (files.has(fsPath)) {
+            continue;
+        }
+
+        const stat = await statFile(fsPath);
+        if (!stat) {
+            files.set(fsPath, { mtimeMs: -1, size: -1 });
+            continue;
+        }
+
+        const entry: SnapshotFile = { mtimeMs: stat.mtimeMs, size: stat.size };
+        if (
+            stat.size <= MAX_SNAPSHOT_FILE_BYTES &&
+            capturedBytes + stat.size <= MAX_SNAPSHOT_TOTAL_BYTES
+        ) {
+            entry.content = await readSnapshotFile(fsPath);
+            capturedBytes += entry.content?.length ?? 0;
+        }
+        files.set(fsPath, entry);
+    }
+    return { root, takenAt, complete, files };
+}
+
+export async function collectSnapshotChanges(
+    snapshot: FileSnapshot,
+    currentPaths: string[],
+): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+    for (const [fsPath, before] of snapshot.files) {
+        const stat = await statFile(fsPath);
+        if (!stat) {
+            if (before.size >= 0) {
+                changes.push({
+                    fsPath,
+                    kind: "deleted",
+                    before: before.content,
+                    restorable: !!before.content,
+                });
+            }
+            continue;
+        }
+        if (stat.mtimeMs === before.mtimeMs && stat.size === before.size) {
+            continue;
+        }
+
+        const after = await readSnapshotFile(fsPath);
+        if (before.content && after && after.equals(before.content)) {
+            continue;
+        }
+        changes.push({
+            fsPath,
+            kind: "modified",
+            before: before.content,
+            after,
+            restorable: !!before.content,
+        });
+    }
+
+    for (const fsPath of new Set(currentPaths)) {
+        if (snapshot.files.has(fsPath)) {
+            continue;
+        }
+        if (snapshot.complete) {
+            changes.push({
+                fsPath,
+                kind: "created",
+                after: await readSnapshotFile(fsPath),
+                restorable: true,
+            });
+            continue;
+        }
+
+        const stat = await statFile(fsPath);
+        if (stat && stat.mtimeMs >= snapshot.takenAt) {
+            changes.push({
+                fsPath,
+                kind: "changed",
+                after: await readSnapshotFile(fsPath),
+                restorable: false,
+            });
+        }
+    }
+
+    return changes;
+}
+
+export async function restoreFileChanges(
+    changes: FileChange[],
+): Promise<FileChange[]> {
+    const restored: FileChange[] = [];
+    for (const change of changes) {
+        if (!change.restorable) {
+            continue;
+        }
+        if (change.kind === "created") {
+            await fs.rm(change.fsPath, { force: true });
+        } else if (change.before) {
+            await fs.mkdir(path.dirname(change.fsPath), { recursive: true });
+            await fs.writeFile(change.fsPath, change.before);
+        } else {
+            continue;
+        }
+        restored.push(change);
+    }
+    return restored;
+}
+
+export async function readSnapshotFile(
+    fsPath: string,
+): Promise<Buffer | undefined> {
+    try {
+        const stat = await fs.stat(fsPath);
+        if (!stat.isFile() || stat.size > MAX_SNAPSHOT_FILE_BYTES) {
+            return undefined;
+        }
+        return await fs.readFile(fsPath);
+    } catch {
+        return undefined;
+    }
+}
+
+async function statFile(
+    fsPath: string,
+): Promise<{ mtimeMs: number; size: number } | undefined> {
+    try {
+        const stat = await fs.stat(fsPath);
+        return stat.isFile()
+            ? { mtimeMs: stat.mtimeMs, size: stat.size }
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,116 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { test } from "node:test";
+import {
+    extractReplacementSnippet,
+    parseChatCompletion,
+    postJson,
+} from "../http";
+
+async function withServer(
+    handler: http.RequestListener,
+    run: (url: string) => Promise<void>,
+): Promise<void> {
+    const server = http.createServer(handler);
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    try {
+        await run(`http://127.0.0.1:${port}/v1/chat/completions`);
+    } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+}
+
+test("chat completion replies are parsed into a replacement snippet", async () => {
+    let received: { body: unknown; authorization?: string } | undefined;
+    await withServer(
+        (request, response) => {
+            const chunks: Buffer[] = [];
+            request.on("data", (chunk: Buffer) => chunks.push(chunk));
+            request.on("end", () => {
+                received = {
+                    body: JSON.parse(Buffer.concat(chunks).toString("utf8")),
+                    authorization: request.headers.authorization,
+                };
+                response.setHeader("Content-Type", "application/json");
+                response.end(
+                    JSON.stringify({
+                        choices: [
+                            {
+                                message: {
+                                    content:
+                                        "Here is the fix:\n```ts\nconst a: number = 1;\n```\n",
+                                },
+                            },
+                        ],
+                        usage: { prompt_tokens: 12, completion_tokens: 5 },
+                    }),
+                );
+            });
+        },
+        async (url) => {
+            const reply = parseChatCompletion(
+                await postJson(
+                    url,
+                    { messages: [{ role: "user", content: "fix" }] },
+                    { Authorization: "Bearer secret" },
+                    5000,
+                ),
+            );
+            assert.deepStrictEqual(received, {
+                body: { messages: [{ role: "user", content: "fix" }] },
+                authorization: "Bearer secret",
+            });
+            assert.deepStrictEqual(reply.usage, {
+                inputTokens: 12,
+                outputTokens: 5,
+            });
+            assert.strictEqual(
+                extractReplacementSnippet(reply.content),
+                "const a: number = 1;",
+            );
+        },
+    );
+});
+
+test("error statuses and malformed replies are rejected", async () => {
+    await withServer(
+        (request, response) => {
+            request.resume();
+            request.on("end", () => {
+                if (request.url?.endsWith("/fail")) {
+                    response.statusCode = 500;
+                    response.end("model not loaded");
+                    return;
+                }
+                response.end(JSON.stringify({ choices: [] }));
+            });
+        },
+        async (url) => {
+            await assert.rejects(
+                postJson(`${url}/fail`, {}, {}, 5000),
+                /HTTP 500: model not loaded/,
+            );
+            assert.throws(
+                () => parseChatCompletion({ choices: [] }),
+                /no choices\[0\]\.message\.content/,
+            );
+            await assert.rejects(
+                async () =>
+                    parseChatCompletion(await postJson(url, {}, {}, 5000)),
+                /no choices\[0\]\.message\.content/,
+            );
+        },
+    );
+});
+
+test("unfenced replies keep their indentation and empty replies yield nothing", () => {
+    assert.strictEqual(
+        extractReplacementSnippet("\n    return value;\n"),
+        "    return value;",
+    );
+    assert.strictEqual(extractReplacementSnippet("```\n\n```"), undefined);
+});
@@ -0,0 +1,144 @@
+import * as assert from "assert";
+import { test } from "node:test";
+import {
+    coversWholeFile,
+    extractUnifiedDiff,
+    locateHunk,
+    parseUnifiedDiff,
+} from "../patch";
+
+test("removed and added lines that look like file headers stay in the hunk", () => {
+    const diff = [
+        "--- a/notes.md",
+        "+++ b/notes.md",
+        "@@ -1,3 +1,3 @@",
+        " # Notes",
+        "--- old rule",
+        "+++ new rule",
+        " end",
+    ].join("\n");
+
+    const patches = parseUnifiedDiff(diff);
+    assert.strictEqual(patches.length, 1);
+    assert.deepStrictEqual(patches[0].hunks[0].oldLines, [
+        "# Notes",
+        "-- old rule",
+        "end",
+    ]);
+    assert.deepStrictEqual(patches[0].hunks[0].newLines, [
+        "# Notes",
+        "++ new rule",
+        "end",
+    ]);
+});
+
+test("hunk line counts separate consecutive files and blank context lines", () => {
+    const diff = extractUnifiedDiff(
+        [
+            "Here is the fix:",
+            "```diff",
+            "--- a/src/a.ts",
+            "+++ b/src/a.ts",
+            "@@ -2,3 +2,3 @@",
+            " const a = 1;",
+            "",
+            "-const b = a +;",
+            "+const b = a + 1;",
+            "--- a/src/b.ts",
+            "+++ b/src/b.ts",
+            "@@ -1 +1 @@",
+            "-export {}",
+            "+export {};",
+            "```",
+        ].join("\n"),
+    );
+    assert.ok(diff);
+
+    const patches = parseUnifiedDiff(diff);
+    assert.deepStrictEqual(
+        patches.map((patch) => [patch.oldPath, patch.newPath]),
+        [
+            ["src/a.ts", "src/a.ts"],
+            ["src/b.ts", "src/b.ts"],
+        ],
+    );
+    assert.deepStrictEqual(patches[0].hunks[0].oldLines, [
+        "const a = 1;",
+        "",
+        "const b = a +;",
+    ]);
+    assert.deepStrictEqual(patches[1].hunks[0].newLines, ["export {};"]);
+});
+
+test("created and deleted files keep a missing side", () => {
+    const patches = parseUnifiedDiff(
+        [
+            "--- /dev/null",
+            "+++ b/new.ts",
+            "@@ -0,0 +1 @@",
+            "+export const x = 1;",
+            "--- a/old.ts",
+            "+++ /dev/null",
+        ].join("\n"),
+    );
+    assert.deepStrictEqual(
+        patches.map((patch) => [patch.oldPath, patch.newPath]),
+        [
+            [undefined, "new.ts"],
+            ["old.ts", undefined],
+        ],
+    );
+});
+
+test("hunks without a file header are rejected", () => {
+    assert.throws(
+        () => parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b"),
+        /hunk without a file header/,
+    );
+});
+
+test("locateHunk prefers the stated line and tolerates drift", () => {
+    const lines = ["a", "b", "c", "b", "c"];
+    const hunk = {
+        header: "@@ -4,2 +4,2 @@",
+        oldStart: 4,
+        oldLines: ["b", "c"],
+        newLines: ["b", "d"],
+    };
+    assert.strictEqual(locateHunk(lines, hunk, 0), 3);
+    assert.strictEqual(locateHunk(lines, { ...hunk, oldStart: 9 }, 0), 3);
+    assert.strictEqual(locateHunk(lines, { ...hunk, oldStart: 1 }, 0), 1);
+    assert.strictEqual(locateHunk(lines, hunk, 4), -1);
+    assert.strictEqual(
+        locateHunk(lines, { ...hunk, oldLines: ["b  ", "c"] }, 0),
+        3,
+    );
+});
+
+test("pure insertions are placed at the stated line after earlier hunks", () => {
+    const hunk = {
+        header: "@@ -2,0 +3 @@",
+        oldStart: 2,
+        oldLines: [],
+        newLines: ["x"],
+    };
+    assert.strictEqual(locateHunk(["a", "b", "c"], hunk, 0), 2);
+    assert.strictEqual(locateHunk(["a", "b", "c"], hunk, 3), 3);
+    assert.strictEqual(locateHunk(["a"], { ...hunk, oldStart: 5 }, 0), 1);
+});
+
+test("deletions must remove every line of the current file", () => {
+    const [deletion] = parseUnifiedDiff(
+        ["--- a/old.ts", "+++ /dev/null", "@@ -1,2 +0,0 @@", "-a", "-b"].join(
+            "\n",
+        ),
+    );
+    assert.strictEqual(coversWholeFile(["a", "b", ""], deletion.hunks), true);
+    assert.strictEqual(coversWholeFile(["a", "b"], deletion.hunks), true);
+    assert.strictEqual(coversWholeFile(["a", "b", "c"], deletion.hunks), false);
+    assert.strictEqual(coversWholeFile(["x", "a", "b"], deletion.hunks), false);
+    assert.strictEqual(coversWholeFile(["a", "b"], []), false);
+
+    const [bare] = parseUnifiedDiff("--- a/old.ts\n+++ /dev/null");
+    assert.strictEqual(coversWholeFile(["a"], bare.hunks), false);
+});
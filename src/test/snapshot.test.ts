@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test } from "node:test";
+import {
+    captureSnapshot,
+    collectSnapshotChanges,
+    MAX_SNAPSHOT_FILE_BYTES,
+    restoreFileChanges,
+} from "../snapshot";
+
+async function makeWorkspace(): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "ai-quick-fix-"));
+    await fs.writeFile(path.join(root, "small.ts"), "const a = 1;\n");
+    await fs.writeFile(
+        path.join(root, "large.bin"),
+        Buffer.alloc(MAX_SNAPSHOT_FILE_BYTES + 1, 1),
+    );
+    return root;
+}
+
+async function exists(fsPath: string): Promise<boolean> {
+    return await fs.stat(fsPath).then(
+        () => true,
+        () => false,
+    );
+}
+
+test("undo restores captured files and leaves large files alone", async () => {
+    const root = await makeWorkspace();
+    const small = path.join(root, "small.ts");
+    const large = path.join(root, "large.bin");
+    const created = path.join(root, "created.ts");
+    try {
+        const snapshot = await captureSnapshot(root, [small, large], true);
+        assert.strictEqual(snapshot.files.get(large)?.content, undefined);
+
+        await fs.writeFile(small, "const a = 22;\n");
+        await fs.writeFile(large, Buffer.alloc(MAX_SNAPSHOT_FILE_BYTES + 2, 2));
+        await fs.writeFile(created, "export {};\n");
+
+        const changes = await collectSnapshotChanges(snapshot, [
+            small,
+            large,
+            created,
+        ]);
+        const byPath = new Map(
+            changes.map((change) => [change.fsPath, change]),
+        );
+        assert.strictEqual(byPath.get(small)?.kind, "modified");
+        assert.strictEqual(byPath.get(large)?.kind, "modified");
+        assert.strictEqual(byPath.get(large)?.restorable, false);
+        assert.strictEqual(byPath.get(created)?.kind, "created");
+
+        const restored = await restoreFileChanges(changes);
+        assert.strictEqual(restored.length, 2);
+        assert.strictEqual(await fs.readFile(small, "utf8"), "const a = 1;\n");
+        assert.strictEqual(await exists(large), true);
+        assert.strictEqual(await exists(created), false);
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});
+
+test("files missing from an incomplete listing are never deleted", async () => {
+    const root = await makeWorkspace();
+    const small = path.join(root, "small.ts");
+    const large = path.join(root, "large.bin");
+    try {
+        const snapshot = await captureSnapshot(root, [small], false);
+        await fs.writeFile(large, "rewritten by the agent\n");
+
+        const changes = await collectSnapshotChanges(snapshot, [small, large]);
+        assert.deepStrictEqual(
+            changes.map((change) => [change.kind, change.restorable]),
+            [["changed", false]],
+        );
+
+        assert.strictEqual((await restoreFileChanges(changes)).length, 0);
+        assert.strictEqual(await exists(large), true);
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});
+
+test("unchanged files produce no changes", async () => {
+    const root = await makeWorkspace();
+    const small = path.join(root, "small.ts");
+    const large = path.join(root, "large.bin");
+    try {
+        const snapshot = await captureSnapshot(root, [small, large], true);
+        assert.deepStrictEqual(
+            await collectSnapshotChanges(snapshot, [small, large]),
+            [],
+        );
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});